@@ -0,0 +1,97 @@
+/**
+ * Finds other names a chromosome may go by, ie. "1" or "NC_000001.11" for "chr1".
+ * Readers consult their resolver when a file doesn't have a chromosome under the name asked for.
+ */
+export interface ChromAliasResolver {
+
+    /**
+     * Gets other names for a chromosome, in order of preference. Does not include the name itself.
+     */
+    aliases(chrom: string): Array<string>;
+
+}
+
+const MITOCHONDRIA_NAMES = ["chrM", "MT", "chrMT", "M"];
+
+/**
+ * Chromosome alias resolver using a chromAlias.txt style table, like the ones UCSC provides for each assembly,
+ * and built-in heuristics for naming conventions that differ between UCSC, Ensembl and NCBI.
+ *
+ * Each line of the table holds the tab separated names for one chromosome, ie. "chr1\t1\tCM000663.2\tNC_000001.11".
+ * Lines starting with # are skipped. Lines sharing any name are treated as names for the same chromosome,
+ * so two column alias / name tables work too.
+ *
+ * The heuristics add or remove a "chr" prefix, and match the different names for mitochondrial DNA (chrM, MT).
+ */
+export class ChromAliases implements ChromAliasResolver {
+
+    private groups = new Map<string, Array<string>>();
+
+    /**
+     * @param chromAliasTable Contents of a chromAlias.txt style table.
+     * @param useHeuristics Whether to also try the built-in heuristics.
+     */
+    constructor(chromAliasTable: string = "", private useHeuristics: boolean = true) {
+        for (const line of chromAliasTable.split("\n")) {
+            if (line.startsWith("#")) continue;
+            const names = line.split("\t").map((name) => name.trim()).filter((name) => name.length > 0);
+            if (names.length > 0) this.addGroup(names);
+        }
+    }
+
+    aliases(chrom: string): Array<string> {
+        const aliases: Array<string> = [];
+        const add = (names: Array<string>) => names.forEach((name) => {
+            if (name !== chrom && !aliases.includes(name)) aliases.push(name);
+        });
+        add(this.groups.get(chrom) || []);
+        if (this.useHeuristics) {
+            for (const name of heuristicAliases(chrom)) {
+                add([name]);
+                add(this.groups.get(name) || []);
+            }
+        }
+        return aliases;
+    }
+
+    /**
+     * Adds names for one chromosome, merging them with any group that already has one of the names.
+     */
+    private addGroup(names: Array<string>) {
+        // Names from earlier lines keep their order.
+        const group: Array<string> = [];
+        const add = (name: string) => {
+            if (!group.includes(name)) group.push(name);
+        };
+        names.forEach((name) => (this.groups.get(name) || []).forEach(add));
+        names.forEach(add);
+        group.forEach((name) => this.groups.set(name, group));
+    }
+
+}
+
+/**
+ * Gets other likely names for a chromosome based on common naming conventions.
+ */
+function heuristicAliases(chrom: string): Array<string> {
+    if (MITOCHONDRIA_NAMES.includes(chrom)) {
+        return MITOCHONDRIA_NAMES.filter((name) => name !== chrom);
+    }
+    return /^chr/i.test(chrom) ? [chrom.substring(3)] : [`chr${chrom}`];
+}
+
+/**
+ * Finds the name a file uses for a chromosome. Returns the name itself if the file has it,
+ * otherwise the first of its aliases that the file has.
+ *
+ * @param chrom the chromosome name asked for.
+ * @param hasChrom returns whether the file has a chromosome with the given name.
+ * @param resolver resolver for aliases. Without one, only the name itself is tried.
+ * @returns the file's name for the chromosome, or undefined if none of the names were found.
+ */
+export function resolveChromAlias(chrom: string, hasChrom: (name: string) => boolean,
+    resolver?: ChromAliasResolver): string | undefined {
+    if (hasChrom(chrom)) return chrom;
+    if (resolver === undefined) return undefined;
+    return resolver.aliases(chrom).find(hasChrom);
+}
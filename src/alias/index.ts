@@ -0,0 +1 @@
+export { ChromAliasResolver, ChromAliases, resolveChromAlias } from "./ChromAlias";
@@ -1,8 +1,9 @@
-import { DataLoader } from "../loader/DataLoader";
+import { DataLoader, DataMissingError, withAbortSignal } from "../loader/DataLoader";
 import { readBamHeaderData, BamHeader } from "./BamHeaderReader";
 import { blocksForRange, Chunk, BamIndexData, readBamIndex } from "./BamIndexReader";
 import { bgzfUnzip } from "./Bgzf";
 import { BinaryParser } from "../util/BinaryParser";
+import { ChromAliasResolver, resolveChromAlias } from "../alias/ChromAlias";
 
 export interface CigarOp {
     opLen: number;
@@ -79,34 +80,68 @@ const SEQ_DECODER = "=ACMGRSVTWYHKDBN";
  */
 export class BamReader {
     
-    constructor(private bamDataLoader: DataLoader, private bamIndexDataLoader: DataLoader) { }
+    /**
+     * @param bamDataLoader Data loader for the BAM file.
+     * @param bamIndexDataLoader Data loader for the BAM index file.
+     * @param chromAliases Resolver for other names of chromosomes, tried when the file doesn't have a chromosome
+     *      under the name asked for. Alignments are returned with the file's chromosome names.
+     */
+    constructor(private bamDataLoader: DataLoader, private bamIndexDataLoader: DataLoader,
+        private chromAliases?: ChromAliasResolver) { }
 
     private indexData?: BamIndexData = undefined;
-    async getIndexData(): Promise<BamIndexData> {
+    async getIndexData(signal?: AbortSignal): Promise<BamIndexData> {
         if (this.indexData === undefined) {
-            this.indexData = await readBamIndex(this.bamIndexDataLoader);
+            this.indexData = await readBamIndex(withAbortSignal(this.bamIndexDataLoader, signal));
         }
         return this.indexData;
     }
 
     private headerData?: BamHeader = undefined;
-    async getHeaderData(): Promise<BamHeader> {
+    async getHeaderData(signal?: AbortSignal): Promise<BamHeader> {
         if (this.headerData === undefined) {
-            this.headerData = await readBamHeaderData(this.bamDataLoader);
+            this.headerData = await readBamHeaderData(withAbortSignal(this.bamDataLoader, signal));
         }
         return this.headerData;
     }
 
-    async read(chr: string, start: number, end: number): Promise<Array<BamAlignment>> {
-        const indexData = await this.getIndexData();
-        const headerData = await this.getHeaderData();
-        const refId = headerData.chromToId[chr];
+    /**
+     * Reads the alignments in a region. Pass an AbortSignal to cancel the read.
+     */
+    async read(chr: string, start: number, end: number, signal?: AbortSignal): Promise<Array<BamAlignment>> {
+        const indexData = await this.getIndexData(signal);
+        const headerData = await this.getHeaderData(signal);
+        const refName = this.resolveChrom(headerData, chr);
+        const refId = headerData.chromToId[refName];
         const chunks: Array<Chunk> = blocksForRange(indexData.refData[refId], start, end);
-        return await readBam(this.bamDataLoader, chunks, refId, chr, start, end);
+        return await readBam(withAbortSignal(this.bamDataLoader, signal), chunks, refId, refName, start, end);
+    }
+
+    /**
+     * Iterates over the alignments in a region with for await. Each chunk of the file is only loaded
+     * once the alignments before it have all been used. Pass an AbortSignal to cancel the read.
+     */
+    async *iterate(chr: string, start: number, end: number, signal?: AbortSignal): AsyncIterableIterator<BamAlignment> {
+        const indexData = await this.getIndexData(signal);
+        const headerData = await this.getHeaderData(signal);
+        const refName = this.resolveChrom(headerData, chr);
+        const refId = headerData.chromToId[refName];
+        const chunks: Array<Chunk> = blocksForRange(indexData.refData[refId], start, end);
+        yield* iterateBam(withAbortSignal(this.bamDataLoader, signal), chunks, refId, refName, start, end);
+    }
+
+    /**
+     * Gets the file's name for a chromosome, trying its aliases if the file doesn't have the name.
+     */
+    private resolveChrom(headerData: BamHeader, chr: string): string {
+        const refName = resolveChromAlias(chr, (name) => headerData.chromToId[name] !== undefined, this.chromAliases);
+        if (refName === undefined) throw new DataMissingError(chr);
+        return refName;
     }
 
 }
 
+
 /**
  * Reads alignments from a bam file given file regions to look ("chunks") from an index and search parameters.
  * 
@@ -120,16 +155,31 @@ export class BamReader {
 export async function readBam(bamDataLoader: DataLoader, chunks: Array<Chunk>, refId: number, chr: string,
     start: number, end: number): Promise<Array<BamAlignment>> {
     const alignments = Array<BamAlignment>();
+    for await (const alignment of iterateBam(bamDataLoader, chunks, refId, chr, start, end)) {
+        alignments.push(alignment);
+    }
+    return alignments;
+}
+
+/**
+ * Iterates over alignments from a bam file given file regions to look ("chunks") from an index and search parameters.
+ * Each chunk is only loaded once the alignments from the chunk before it have been used.
+ * 
+ * @param bamDataLoader the data loader for the bam file.
+ * @param chunks regions to look for matching alignments.
+ * @param refId The file's reference id for the given chromosome.
+ * @param chr the chr
+ * @param start 
+ * @param end 
+ */
+export async function* iterateBam(bamDataLoader: DataLoader, chunks: Array<Chunk>, refId: number, chr: string,
+    start: number, end: number): AsyncIterableIterator<BamAlignment> {
     for (let chunk of chunks) {
         const bufSize = chunk.end.blockPosition + (1 << 16) - chunk.start.blockPosition;
         const chunkBytes: ArrayBuffer = await bamDataLoader.load(chunk.start.blockPosition, bufSize);
         const unzippedChunk: ArrayBuffer = bgzfUnzip(chunkBytes);
-        const chunkAlignments = readBamFeatures(unzippedChunk.slice(chunk.start.dataPosition),
-            refId, chr, start, end);
-        // Append all chunk alignments to alignments
-        chunkAlignments.forEach(ca => alignments.push(ca));
+        yield* readBamFeatures(unzippedChunk.slice(chunk.start.dataPosition), refId, chr, start, end);
     }
-    return alignments;
 }
 
 /**
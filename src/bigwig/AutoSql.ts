@@ -0,0 +1,226 @@
+import { FileFormatError } from "../loader/DataLoader";
+import { ParseFunction } from "./BigWigReader";
+import { FormatFunction } from "./BigBedWriter";
+
+/**
+ * A single field (column) from an AutoSql definition.
+ *
+ * @prop type the field's base type, ie. "uint", "string", "char", "enum".
+ * @prop name the field's name.
+ * @prop comment the field's description.
+ * @prop size array size. A number for fixed size arrays like char[2], or the name of the field holding
+ *      the size for variable sized arrays like int[blockCount]. Undefined for non-array fields.
+ * @prop values the allowed values for enum and set fields.
+ */
+export interface AutoSqlField {
+    type: string;
+    name: string;
+    comment: string;
+    size?: number | string;
+    values?: Array<string>;
+}
+
+/**
+ * Parsed AutoSql definition for a BigBed file's columns.
+ */
+export interface AutoSqlSchema {
+    declareType: string;
+    name: string;
+    comment: string;
+    fields: Array<AutoSqlField>;
+}
+
+/**
+ * Value of a field decoded with an AutoSql schema. Numbers for numeric fields, lists for arrays and sets,
+ * and strings for everything else.
+ */
+export type AutoSqlValue = string | number | Array<number> | Array<string>;
+
+/**
+ * Bed data decoded with an AutoSql schema. Holds a property for each field after chrom, chromStart and chromEnd.
+ */
+export interface BigBedDataAutoSql {
+    chr: string;
+    start: number;
+    end: number;
+    [field: string]: AutoSqlValue;
+}
+
+// Standard BED fields, as defined in UCSC's bed.as
+const BED_FIELDS: Array<[string, string, string]> = [
+    ["string", "chrom", "Reference sequence chromosome or scaffold"],
+    ["uint", "chromStart", "Start position in chromosome"],
+    ["uint", "chromEnd", "End position in chromosome"],
+    ["string", "name", "Name of item"],
+    ["uint", "score", "Score from 0-1000"],
+    ["char[1]", "strand", "+ or -"],
+    ["uint", "thickStart", "Start of where display should be thick (start codon)"],
+    ["uint", "thickEnd", "End of where display should be thick (stop codon)"],
+    ["uint", "reserved", "Used as itemRgb as of 2004-11-22"],
+    ["int", "blockCount", "Number of blocks"],
+    ["int[blockCount]", "blockSizes", "Comma separated list of block sizes"],
+    ["int[blockCount]", "chromStarts", "Start positions relative to chromStart"]
+];
+
+const INTEGER_TYPES = ["int", "uint", "short", "ushort", "byte", "ubyte", "bigint"];
+const FLOAT_TYPES = ["float", "double"];
+const FIELD_MODIFIERS = ["primary", "auto", "index", "unique"];
+
+/**
+ * Splits AutoSql text into words, quoted strings and punctuation.
+ */
+function tokenize(autosql: string): Array<string> {
+    const tokens: Array<string> = [];
+    const tokenRegex = /"([^"]*)"|([()\[\];,])|([^\s()\[\];,"]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(autosql)) !== null) {
+        tokens.push(match[0]);
+    }
+    return tokens;
+}
+
+const isQuoted = (token: string | undefined) => token !== undefined && token.startsWith("\"");
+const unquote = (token: string) => token.substring(1, token.length - 1);
+
+/**
+ * Parses an AutoSql definition, like the one found in HeaderData.autosql, into a schema.
+ *
+ * @param autosql the AutoSql definition text.
+ */
+export function parseAutoSql(autosql: string): AutoSqlSchema {
+    const tokens = tokenize(autosql);
+    let position = 0;
+    const next = (): string => {
+        if (position >= tokens.length) throw new FileFormatError("Unexpected end of AutoSql definition.");
+        return tokens[position++];
+    };
+    const expect = (expected: string) => {
+        const token = next();
+        if (token !== expected) throw new FileFormatError(`Expected "${expected}" in AutoSql but found "${token}".`);
+    };
+
+    const declareType = next();
+    const name = next();
+    const comment = isQuoted(tokens[position]) ? unquote(next()) : "";
+    expect("(");
+
+    const fields: Array<AutoSqlField> = [];
+    while (tokens[position] !== ")") {
+        const field: AutoSqlField = { type: next(), name: "", comment: "" };
+        if (field.type === "enum" || field.type === "set") {
+            expect("(");
+            field.values = [];
+            while (tokens[position] !== ")") {
+                const value = next();
+                if (value !== ",") field.values.push(value);
+            }
+            expect(")");
+        }
+        if (tokens[position] === "[") {
+            next();
+            const size = next();
+            field.size = isNaN(Number(size)) ? size : Number(size);
+            expect("]");
+        }
+        field.name = next();
+
+        // Skip modifiers like "primary" or "index[12]"
+        while (tokens[position] !== ";") {
+            const modifier = next();
+            if (!FIELD_MODIFIERS.includes(modifier) && modifier !== "[" && modifier !== "]" && isNaN(Number(modifier))) {
+                throw new FileFormatError(`Unexpected "${modifier}" in AutoSql field ${field.name}.`);
+            }
+        }
+        expect(";");
+        if (isQuoted(tokens[position])) {
+            field.comment = unquote(next());
+        }
+        fields.push(field);
+    }
+    expect(")");
+
+    return { declareType, name, comment, fields };
+}
+
+/**
+ * Creates the AutoSql definition for standard BED data with the given number of fields, like UCSC tools use
+ * for files without their own AutoSql.
+ *
+ * @param fieldCount number of fields, from 3 to 12.
+ */
+export function bedAutoSql(fieldCount: number): string {
+    const fields = BED_FIELDS.slice(0, Math.max(3, Math.min(fieldCount, BED_FIELDS.length)))
+        .map(([type, name, comment]) => `   ${type} ${name}; "${comment}"`);
+    return `table bed\n"Browser Extensible Data"\n   (\n${fields.join("\n")}\n   )\n`;
+}
+
+/**
+ * Converts a single column value to the type given by its AutoSql field.
+ */
+function parseFieldValue(field: AutoSqlField, value: string): AutoSqlValue {
+    if (field.type === "set") {
+        return value === "" ? [] : value.split(",");
+    }
+    const isNumeric = INTEGER_TYPES.includes(field.type) || FLOAT_TYPES.includes(field.type);
+    const parseNumber = (v: string) => INTEGER_TYPES.includes(field.type) ? parseInt(v) : parseFloat(v);
+    // Chars are read as one string, arrays of anything else as a list.
+    if (field.size !== undefined && field.type !== "char") {
+        const values = value.split(",");
+        if (values[values.length - 1] === "") values.pop();
+        return isNumeric ? values.map(parseNumber) : values;
+    }
+    return isNumeric ? parseNumber(value) : value;
+}
+
+/**
+ * Creates a parse function that decodes bed data using the given AutoSql schema.
+ * The first three fields are always read as chr, start and end. All other columns are stored
+ * under their field name, converted to the field's type.
+ *
+ * @param schema the AutoSql schema for the file.
+ */
+export function parseWithAutoSql(schema: AutoSqlSchema): ParseFunction<BigBedDataAutoSql> {
+    const restFields = schema.fields.slice(3);
+    return (chrom: string, startBase: number, endBase: number, rest: string): BigBedDataAutoSql => {
+        const entry: BigBedDataAutoSql = {
+            chr: chrom,
+            start: startBase,
+            end: endBase
+        };
+
+        const tokens = rest.split("\t");
+        for (let i = 0; i < restFields.length && i < tokens.length; i++) {
+            entry[restFields[i].name] = parseFieldValue(restFields[i], tokens[i]);
+        }
+        return entry;
+    };
+}
+
+/**
+ * Converts a single field value to its column text.
+ */
+function formatFieldValue(field: AutoSqlField, value: AutoSqlValue): string {
+    if (Array.isArray(value)) {
+        // Arrays are written with a trailing comma, like UCSC tools do. Sets are not.
+        return value.join(",") + (field.type !== "set" && value.length > 0 ? "," : "");
+    }
+    return String(value);
+}
+
+/**
+ * Creates a format function that encodes bed data using the given AutoSql schema. The inverse of parseWithAutoSql.
+ * Columns are written for every field up to the last one the entry has a value for.
+ *
+ * @param schema the AutoSql schema for the file.
+ */
+export function formatWithAutoSql(schema: AutoSqlSchema): FormatFunction<BigBedDataAutoSql> {
+    const restFields = schema.fields.slice(3);
+    return (entry: BigBedDataAutoSql): string => {
+        let columnCount = restFields.length;
+        while (columnCount > 0 && entry[restFields[columnCount - 1].name] === undefined) columnCount--;
+        return restFields.slice(0, columnCount).map((field) => {
+            const value = entry[field.name];
+            return value === undefined ? "" : formatFieldValue(field, value);
+        }).join("\t");
+    };
+}
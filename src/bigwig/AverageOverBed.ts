@@ -0,0 +1,98 @@
+import { BigWigReader, BigBedData, BigWigData } from "./BigWigReader";
+import { DataMissingError } from "../loader/DataLoader";
+
+/**
+ * Signal averaged over one BED record, like a line of UCSC's bigWigAverageOverBed output.
+ * For records with exons (BED12), only bases within the exons are counted.
+ *
+ * @prop size number of bases in the record.
+ * @prop covered number of bases in the record that have data.
+ * @prop sum sum of values over covered bases.
+ * @prop mean0 mean over all bases, counting bases without data as 0.
+ * @prop mean mean over covered bases only. 0 if no bases are covered.
+ */
+export interface BedAverage {
+    chr: string;
+    start: number;
+    end: number;
+    name?: string;
+    size: number;
+    covered: number;
+    sum: number;
+    mean0: number;
+    mean: number;
+}
+
+export type BedSource = Iterable<BigBedData> | AsyncIterable<BigBedData> | BigWigReader;
+
+/**
+ * Averages BigWig signal over each record of a BED source, matching UCSC's bigWigAverageOverBed.
+ *
+ * @param bigWigReader Reader for the BigWig file with the signal.
+ * @param bedSource The BED records, as an array of regions, an async iterable like a stream of parsed records,
+ *      or a reader for a BigBed file to use all of its records.
+ * @param [signal] Optional AbortSignal to cancel the read
+ * @returns Averages for each record, in the same order as the records.
+ */
+export async function averageOverBed(bigWigReader: BigWigReader, bedSource: BedSource,
+    signal?: AbortSignal): Promise<Array<BedAverage>> {
+    const averages: Array<BedAverage> = [];
+    for await (const average of iterateAverageOverBed(bigWigReader, bedSource, signal)) {
+        averages.push(average);
+    }
+    return averages;
+}
+
+/**
+ * Averages BigWig signal over each record of a BED source with for await, like averageOverBed. Records are only
+ * read from the source and averaged as the results are used, so genome-wide BED files never need to be held
+ * in memory at once.
+ *
+ * @param bigWigReader Reader for the BigWig file with the signal.
+ * @param bedSource The BED records, as an array of regions, an async iterable like a stream of parsed records,
+ *      or a reader for a BigBed file to use all of its records.
+ * @param [signal] Optional AbortSignal to cancel the read
+ */
+export async function* iterateAverageOverBed(bigWigReader: BigWigReader, bedSource: BedSource,
+    signal?: AbortSignal): AsyncIterableIterator<BedAverage> {
+    const records = bedSource instanceof BigWigReader ?
+        bedSource.iterateAll({}, signal) as AsyncIterableIterator<BigBedData> : bedSource;
+    for await (const record of records) {
+        let wigData: Array<BigWigData> = [];
+        try {
+            wigData = await bigWigReader.readBigWigData(record.chr, record.start, record.chr, record.end, signal);
+        } catch (e) {
+            // Chromosomes without data count as uncovered, like UCSC's tool.
+            if (!(e instanceof DataMissingError)) throw e;
+        }
+        yield averageRecord(record, wigData);
+    }
+}
+
+/**
+ * Averages the given wig data over a single BED record.
+ */
+function averageRecord(record: BigBedData, wigData: Array<BigWigData>): BedAverage {
+    const blocks = record.exons !== undefined && record.exons.length > 0 ? record.exons : [record];
+    let size = 0, covered = 0, sum = 0;
+    for (const block of blocks) {
+        size += block.end - block.start;
+        for (const data of wigData) {
+            const overlap = Math.min(data.end, block.end) - Math.max(data.start, block.start);
+            if (overlap <= 0) continue;
+            covered += overlap;
+            sum += data.value * overlap;
+        }
+    }
+    return {
+        chr: record.chr,
+        start: record.start,
+        end: record.end,
+        name: record.name,
+        size,
+        covered,
+        sum,
+        mean0: size > 0 ? sum / size : 0,
+        mean: covered > 0 ? sum / covered : 0
+    };
+}
@@ -0,0 +1,96 @@
+import { DataLoader, FileFormatError, withAbortSignal } from "../loader/DataLoader";
+import { BigBedDataInteract, filterInteractsByAnchor } from "./bigInteract";
+import { decodeUtf8 } from "../util/misc";
+
+/**
+ * Class for reading tab-separated BEDPE files, giving the same interactions as BigWigReader.readBigInteractData.
+ * BEDPE files have no index, so the whole file is loaded on the first read and kept for later reads.
+ * Files are read as UTF-8 text.
+ */
+export class BedpeReader {
+
+    private cachedData?: Promise<Array<BigBedDataInteract>>;
+
+    /**
+     * @param dataLoader Loader for the BEDPE file.
+     */
+    constructor(private dataLoader: DataLoader) { }
+
+    /**
+     * Method for reading all interactions in the file, in file order.
+     *
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async readBedpeData(signal?: AbortSignal): Promise<Array<BigBedDataInteract>> {
+        if (this.cachedData === undefined) {
+            const loading = this.loadData(signal);
+            // Let later reads try again if this one fails or is cancelled.
+            loading.catch(() => {
+                if (this.cachedData === loading) this.cachedData = undefined;
+            });
+            this.cachedData = loading;
+        }
+        return this.cachedData;
+    }
+
+    /**
+     * Method for reading interactions for a viewport. Like BigWigReader.readBigInteractData, interactions are
+     * returned if either anchor overlaps the range, and each interaction is only returned once.
+     *
+     * @param chrom Chromosome
+     * @param startBase Starting base pair
+     * @param endBase Ending base pair
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async readInteractions(chrom: string, startBase: number, endBase: number,
+        signal?: AbortSignal): Promise<Array<BigBedDataInteract>> {
+        return filterInteractsByAnchor(await this.readBedpeData(signal), chrom, startBase, endBase);
+    }
+
+    private async loadData(signal?: AbortSignal): Promise<Array<BigBedDataInteract>> {
+        const data = await withAbortSignal(this.dataLoader, signal).load(0);
+        const text = decodeUtf8(new Uint8Array(data));
+        const interactions: Array<BigBedDataInteract> = [];
+        text.split(/\r?\n/).forEach((line, i) => {
+            if (line.length === 0 || line.startsWith("#") || line.startsWith("track") || line.startsWith("browser")) return;
+            interactions.push(parseBedpeLine(line, i + 1));
+        });
+        return interactions;
+    }
+
+}
+
+/**
+ * Parses a line of a BEDPE file. The score, if given, is used as both the score and the value.
+ * The interaction's span covers both anchors when they're on the same chromosome, and the source anchor otherwise.
+ *
+ * @param line Line of the file
+ * @param lineNumber Line number, for errors.
+ */
+function parseBedpeLine(line: string, lineNumber: number): BigBedDataInteract {
+    const tokens = line.split("\t");
+    if (tokens.length < 6) {
+        throw new FileFormatError(`BEDPE line ${lineNumber} has ${tokens.length} columns, expected at least 6.`);
+    }
+    const source = { chr: tokens[0], start: parseInt(tokens[1]), end: parseInt(tokens[2]), strand: tokens[8] };
+    const target = { chr: tokens[3], start: parseInt(tokens[4]), end: parseInt(tokens[5]), strand: tokens[9] };
+    if ([source.start, source.end, target.start, target.end].some(isNaN)) {
+        throw new FileFormatError(`BEDPE line ${lineNumber} has invalid coordinates.`);
+    }
+    const sameChrom = source.chr === target.chr;
+    const entry: BigBedDataInteract = {
+        chr: source.chr,
+        start: sameChrom ? Math.min(source.start, target.start) : source.start,
+        end: sameChrom ? Math.max(source.end, target.end) : source.end,
+        source,
+        target
+    };
+    if (tokens.length > 6) {
+        entry.name = tokens[6];
+    }
+    if (tokens.length > 7 && tokens[7] !== ".") {
+        entry.score = parseFloat(tokens[7]);
+        entry.value = entry.score;
+    }
+    return entry;
+}
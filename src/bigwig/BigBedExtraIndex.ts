@@ -0,0 +1,117 @@
+import { BufferedDataLoader, FileFormatError } from "../loader/DataLoader";
+import { BinaryParser } from "../util/BinaryParser";
+import { HeaderData, ExtraIndex } from "./BigWigHeaderReader";
+import { parseAutoSql, bedAutoSql } from "./AutoSql";
+
+const BPT_MAGIC = 0x78CA8C91;
+const BPT_HEADER_SIZE = 32;
+
+/**
+ * Location of a block of BigBed data that contains records matching an extra index lookup.
+ */
+export interface ExtraIndexBlock {
+    offset: number;
+    size: number;
+}
+
+interface BPTreeHeader {
+    blockSize: number;
+    keySize: number;
+    valSize: number;
+    itemCount: number;
+}
+
+/**
+ * Gets the list of field names for a BigBed file, in column order, from its autoSql.
+ * Files without autoSql get the standard BED field names.
+ *
+ * @param header the file's header data.
+ */
+export function bigBedFieldNames(header: HeaderData): Array<string> {
+    return parseAutoSql(header.autosql || bedAutoSql(header.common!.fieldCount)).fields.map((field) => field.name);
+}
+
+/**
+ * Finds the extra index on just the given field, by field name.
+ *
+ * @param header the file's header data.
+ * @param field name of the indexed field, ie. "name".
+ */
+export function findExtraIndex(header: HeaderData, field: string): ExtraIndex {
+    const fieldId = bigBedFieldNames(header).indexOf(field);
+    const extraIndex = header.extHeader !== undefined && fieldId >= 0 ?
+        header.extHeader.extraIndices.find((index) => index.fieldCount === 1 && index.fieldId === fieldId) : undefined;
+    if (undefined === extraIndex) {
+        throw new FileFormatError(`No extra index found for field ${field}.`);
+    }
+    return extraIndex;
+}
+
+/**
+ * Walks an extra index B+ tree to find the locations of all data blocks holding records with the given key.
+ *
+ * @param bufferedLoader Buffered data loader used to load the tree data.
+ * @param littleEndian whether the file is little endian.
+ * @param treeOffset file offset of the B+ tree header.
+ * @param key the value to look up.
+ */
+export async function loadExtraIndexBlocks(bufferedLoader: BufferedDataLoader, littleEndian: boolean,
+    treeOffset: number, key: string): Promise<Array<ExtraIndexBlock>> {
+    const headerParser = new BinaryParser(await bufferedLoader.load(treeOffset, BPT_HEADER_SIZE), littleEndian);
+    if (BPT_MAGIC !== headerParser.getUInt()) {
+        throw new FileFormatError(`B+ tree not found at offset ${treeOffset}`);
+    }
+    const treeHeader: BPTreeHeader = {
+        blockSize: headerParser.getInt(),
+        keySize: headerParser.getInt(),
+        valSize: headerParser.getInt(),
+        itemCount: headerParser.getLong()
+    };
+
+    // Keys are stored zero-padded to keySize, so longer keys can never match.
+    if (key.length > treeHeader.keySize) return [];
+    const blocks = await loadExtraIndexBlocksForNode(bufferedLoader, littleEndian, treeHeader, treeOffset + BPT_HEADER_SIZE, key);
+    // Every matching record gets its own entry, so blocks holding several matches show up more than once.
+    return blocks.filter((block, i) => blocks.findIndex((b) => b.offset === block.offset) === i);
+}
+
+/**
+ * Recursively find matching data block locations for the given B+ tree node (by file offset).
+ * Keys may be repeated across nodes, so all children that could hold the key are visited.
+ */
+async function loadExtraIndexBlocksForNode(bufferedLoader: BufferedDataLoader, littleEndian: boolean,
+    treeHeader: BPTreeHeader, nodeOffset: number, key: string): Promise<Array<ExtraIndexBlock>> {
+    const nodeHeaderParser = new BinaryParser(await bufferedLoader.load(nodeOffset, 4), littleEndian);
+    const isLeaf = 1 === nodeHeaderParser.getByte();
+    nodeHeaderParser.position++; // Skip reserved space
+    const count = nodeHeaderParser.getUShort();
+
+    const itemSize = treeHeader.keySize + (isLeaf ? treeHeader.valSize : 8);
+    const nodeDataParser = new BinaryParser(await bufferedLoader.load(nodeOffset + 4, count * itemSize), littleEndian);
+    const blocks: Array<ExtraIndexBlock> = [];
+    if (isLeaf) {
+        for (let i = 0; i < count; i++) {
+            const itemKey = nodeDataParser.getFixedLengthString(treeHeader.keySize);
+            const offset = nodeDataParser.getLong();
+            const size = nodeDataParser.getLong();
+            if (itemKey === key) {
+                blocks.push({ offset, size });
+            }
+        }
+        return blocks;
+    }
+
+    const childKeys: Array<string> = [];
+    const childOffsets: Array<number> = [];
+    for (let i = 0; i < count; i++) {
+        childKeys.push(nodeDataParser.getFixedLengthString(treeHeader.keySize));
+        childOffsets.push(nodeDataParser.getLong());
+    }
+    for (let i = 0; i < count; i++) {
+        // Each child holds keys from its own key up to the next child's key.
+        if (childKeys[i] > key) break;
+        if (i + 1 < count && childKeys[i + 1] < key) continue;
+        blocks.push(... await loadExtraIndexBlocksForNode(bufferedLoader, littleEndian, treeHeader, childOffsets[i], key));
+    }
+    return blocks;
+}
@@ -0,0 +1,301 @@
+import { BinaryWriter } from "../util/BinaryWriter";
+import { encodeUtf8 } from "../util/misc";
+import { FileFormatError } from "../loader/DataLoader";
+import { BigBedData } from "./BigWigReader";
+import { parseAutoSql, bedAutoSql, formatWithAutoSql, AutoSqlSchema } from "./AutoSql";
+import {
+    BigFileWriterOptions, ChromOrderTracker, TotalSummaryBuilder, ZoomLevelsBuilder, DataBlock, WriterChrom, RPTreeItem,
+    groupIntoBlocks, writeDataBlocks, writeChromTree, writeRPTree, writeZoomLevels, writeHeaders, writeBPlusTree,
+    BBFILE_HEADER_SIZE, ZOOM_HEADER_SIZE, TOTAL_SUMMARY_SIZE, DEFAULT_BLOCK_SIZE, DEFAULT_ITEMS_PER_SLOT, MAX_ZOOM_LEVELS
+} from "./BigFileWriter";
+
+const BIGBED_MAGIC = 0x8789F2EB;
+const BIGBED_VERSION = 4;
+const EXTENSION_HEADER_SIZE = 64;
+const EXTRA_INDEX_ENTRY_SIZE = 20;
+const EXTRA_INDEX_VALUE_SIZE = 16;
+
+/**
+ * Function for encoding a bed entry's columns after chrom, start and end, tab separated. The counterpart to ParseFunction.
+ */
+export type FormatFunction<T> = (entry: T) => string;
+
+/**
+ * Options for writing BigBed files.
+ */
+export interface BigBedWriterOptions extends BigFileWriterOptions {
+    // Names of fields to create extra indices for, so they can be found with BigWigReader.searchBigBedByField.
+    extraIndices?: Array<string>;
+    // Number of fields that are standard BED fields, like the 6 in "bed6+4". Defaults to the number of
+    // leading fields named like the standard BED fields.
+    definedFieldCount?: number;
+}
+
+interface BedItem {
+    chrom: WriterChrom;
+    start: number;
+    end: number;
+    rest: string;
+}
+
+/**
+ * Class for writing BigBed files from sorted bed data. The counterpart to BigWigReader.readBigBedData.
+ *
+ * Zoom levels and the total summary hold the coverage depth, the number of features overlapping each base,
+ * like UCSC's bedToBigBed writes.
+ */
+export class BigBedWriter {
+
+    /**
+     * @param chromSizes Sizes of all chromosomes that may appear in the data.
+     * @param autoSql Optional AutoSql definition of the file's fields. Standard BED fields are used if not given.
+     * @param options Options for the layout of the file.
+     */
+    constructor(private chromSizes: { [chrom: string]: number }, private autoSql?: string,
+        private options: BigBedWriterOptions = {}) { }
+
+    /**
+     * Writes a BigBed file.
+     *
+     * @param data Bed data, sorted by chromosome and start. Data for each chromosome must be together.
+     *      Node.js object mode Readable streams can be passed in directly.
+     * @param restFormatter Formats the columns after chrom, start and end for each entry. Defaults to formatting
+     *      BigBedData by position, the inverse of parseBigBed, or to formatting by field name if an AutoSql
+     *      definition was given, the inverse of parseWithAutoSql.
+     * @returns The contents of the BigBed file.
+     */
+    async write(data: Iterable<BigBedData> | AsyncIterable<BigBedData>): Promise<ArrayBuffer>;
+    async write<T extends { chr: string, start: number, end: number }>(data: Iterable<T> | AsyncIterable<T>,
+        restFormatter: FormatFunction<T>): Promise<ArrayBuffer>;
+    async write<T extends { chr: string, start: number, end: number }>(data: Iterable<T> | AsyncIterable<T>,
+        restFormatter?: FormatFunction<T>): Promise<ArrayBuffer> {
+        const itemsPerSlot = this.options.itemsPerSlot || DEFAULT_ITEMS_PER_SLOT;
+        const blockSize = this.options.blockSize || DEFAULT_BLOCK_SIZE;
+        const compress = this.options.compress !== false;
+        const nZoomLevels = this.options.zoomLevels !== undefined ? this.options.zoomLevels : MAX_ZOOM_LEVELS;
+        const givenSchema = this.autoSql !== undefined ? parseAutoSql(this.autoSql) : undefined;
+        const format: FormatFunction<T> = restFormatter ||
+            (givenSchema !== undefined ? formatWithAutoSql(givenSchema) : formatBigBed);
+
+        const chromTracker = new ChromOrderTracker(this.chromSizes);
+        const totalSummary = new TotalSummaryBuilder();
+        const zoomLevelsBuilder = new ZoomLevelsBuilder(this.chromSizes, nZoomLevels);
+        const coverage = new CoverageDepthTracker((chrom, start, end, depth) => {
+            totalSummary.add(end - start, depth);
+            zoomLevelsBuilder.add(chrom, start, end, depth);
+        });
+        const items: Array<BedItem> = [];
+        let maxFieldCount = 3;
+        for await (const d of data) {
+            const chrom = chromTracker.next(d.chr, d.start, d.end);
+            const rest = format(d);
+            if (rest.length > 0) maxFieldCount = Math.max(maxFieldCount, 3 + rest.split("\t").length);
+            items.push({ chrom, start: d.start, end: d.end, rest });
+            coverage.add(chrom, d.start, d.end);
+        }
+        coverage.finish();
+        const zoomLevels = zoomLevelsBuilder.finish(items.length);
+
+        const autoSql = this.autoSql !== undefined ? this.autoSql : bedAutoSql(maxFieldCount);
+        const schema = givenSchema || parseAutoSql(autoSql);
+        const fieldCount = schema.fields.length;
+        const definedFieldCount = this.options.definedFieldCount !== undefined ?
+            this.options.definedFieldCount : countBedFields(schema);
+        const extraIndexFieldIds = (this.options.extraIndices || []).map((field) => {
+            const fieldId = schema.fields.findIndex((f) => f.name === field);
+            if (fieldId < 3) throw new FileFormatError(`Can not create extra index for field ${field}.`);
+            return fieldId;
+        });
+
+        const writer = new BinaryWriter();
+        writer.position = BBFILE_HEADER_SIZE + zoomLevels.length * ZOOM_HEADER_SIZE;
+        const autoSqlOffset = writer.position;
+        writer.putString(autoSql);
+        const totalSummaryOffset = writer.position;
+        writer.putZeros(TOTAL_SUMMARY_SIZE);
+
+        let extHeaderOffset = 0;
+        let extraIndexListOffset = 0;
+        if (extraIndexFieldIds.length > 0) {
+            extHeaderOffset = writer.position;
+            writer.putUShort(EXTENSION_HEADER_SIZE);
+            writer.putUShort(extraIndexFieldIds.length);
+            writer.putLong(extHeaderOffset + EXTENSION_HEADER_SIZE);
+            writer.putZeros(EXTENSION_HEADER_SIZE - 12);
+            extraIndexListOffset = writer.position;
+            // The file offset of each index is filled in once the index is written.
+            writer.putZeros(extraIndexFieldIds.length * EXTRA_INDEX_ENTRY_SIZE);
+        }
+
+        const chromTreeOffset = writer.position;
+        writeChromTree(writer, chromTracker.allChroms(), blockSize);
+
+        const itemBlocks = groupIntoBlocks(items, itemsPerSlot, (item) => item.chrom.id);
+        const blocks = itemBlocks.map(encodeBedBlock);
+        const fullDataOffset = writer.position;
+        writer.putLong(items.length);
+        const rpTreeItems = writeDataBlocks(writer, blocks, compress);
+
+        const fullIndexOffset = writer.position;
+        writeRPTree(writer, rpTreeItems, blockSize, fullIndexOffset);
+        const zoomLevelsWritten = writeZoomLevels(writer, zoomLevels, this.options);
+
+        extraIndexFieldIds.forEach((fieldId, i) => {
+            const indexOffset = writer.position;
+            writeExtraIndex(writer, itemBlocks, rpTreeItems, fieldId, blockSize);
+            const position = writer.position;
+            writer.position = extraIndexListOffset + i * EXTRA_INDEX_ENTRY_SIZE;
+            writer.putUShort(0); // type
+            writer.putUShort(1); // field count
+            writer.putLong(indexOffset);
+            writer.putUInt(0); // reserved
+            writer.putUShort(fieldId);
+            writer.putUShort(0); // reserved
+            writer.position = position;
+        });
+
+        const maxBlockSize = blocks.reduce((max, block) => Math.max(max, block.data.byteLength), zoomLevelsWritten.maxBlockSize);
+        writeHeaders(writer, BIGBED_MAGIC, {
+            bwVersion: BIGBED_VERSION,
+            nZoomLevels: zoomLevels.length,
+            chromTreeOffset,
+            fullDataOffset,
+            fullIndexOffset,
+            fieldCount,
+            definedFieldCount,
+            autoSqlOffset,
+            totalSummaryOffset,
+            uncompressBuffSize: compress ? maxBlockSize : 0,
+            reserved: extHeaderOffset
+        }, zoomLevelsWritten.headers, totalSummary.summary);
+        return writer.getData();
+    }
+
+}
+
+/**
+ * Formats the columns after chrom, start and end of BigBedData. The inverse of parseBigBed.
+ * Columns are written up to the last property the entry has, with defaults for any missing before it.
+ */
+export function formatBigBed(entry: BigBedData): string {
+    const columns: Array<string> = [
+        entry.name !== undefined ? entry.name : ".",
+        entry.score !== undefined ? String(entry.score) : "0",
+        entry.strand !== undefined ? entry.strand : ".",
+        String(entry.cdStart !== undefined ? entry.cdStart : entry.start),
+        String(entry.cdEnd !== undefined ? entry.cdEnd : entry.end),
+        entry.color !== undefined ? entry.color.replace(/^rgb\((.*)\)$/, "$1") : "0"
+    ];
+    if (entry.exons !== undefined) {
+        columns.push(String(entry.exons.length));
+        columns.push(entry.exons.map((exon) => `${exon.end - exon.start},`).join(""));
+        columns.push(entry.exons.map((exon) => `${exon.start - entry.start},`).join(""));
+        return columns.join("\t");
+    }
+    const present = [entry.name, entry.score, entry.strand, entry.cdStart, entry.cdEnd, entry.color];
+    let columnCount = present.length;
+    while (columnCount > 0 && present[columnCount - 1] === undefined) columnCount--;
+    return columns.slice(0, columnCount).join("\t");
+}
+
+/**
+ * Counts the leading fields of a schema that are standard BED fields.
+ */
+function countBedFields(schema: AutoSqlSchema): number {
+    const bedFields = parseAutoSql(bedAutoSql(12)).fields;
+    let count = 0;
+    while (count < schema.fields.length && count < bedFields.length &&
+        (schema.fields[count].name === bedFields[count].name || (count === 8 && schema.fields[count].name === "itemRgb"))) {
+        count++;
+    }
+    return Math.max(3, count);
+}
+
+/**
+ * Encodes a list of bed items for a single chromosome as an uncompressed BigBed data block.
+ */
+function encodeBedBlock(items: Array<BedItem>): DataBlock {
+    const writer = new BinaryWriter();
+    for (const item of items) {
+        writer.putUInt(item.chrom.id);
+        writer.putUInt(item.start);
+        writer.putUInt(item.end);
+        writer.putString(item.rest);
+    }
+    return {
+        chromId: items[0].chrom.id,
+        start: items[0].start,
+        end: items.reduce((max, item) => Math.max(max, item.end), 0),
+        data: writer.getData()
+    };
+}
+
+/**
+ * Writes a B+ tree mapping the values of a field to the data blocks holding the items with that value.
+ *
+ * @param itemBlocks the items in each data block.
+ * @param rpTreeItems the written data blocks, in the same order.
+ * @param fieldId index of the field in the full list of fields, including chrom, start and end.
+ */
+function writeExtraIndex(writer: BinaryWriter, itemBlocks: Array<Array<BedItem>>, rpTreeItems: Array<RPTreeItem>,
+    fieldId: number, blockSize: number) {
+    const keys: Array<{ key: string, block: RPTreeItem }> = [];
+    itemBlocks.forEach((block, i) => block.forEach((item) => {
+        const value = item.rest.split("\t")[fieldId - 3];
+        if (value !== undefined) keys.push({ key: value, block: rpTreeItems[i] });
+    }));
+    keys.sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+    const keySize = keys.reduce((max, k) => Math.max(max, encodeUtf8(k.key).length), 1);
+    writeBPlusTree(writer, keys.map((k) => ({
+        key: k.key,
+        writeValue: () => {
+            writer.putLong(k.block.dataOffset);
+            writer.putLong(k.block.dataSize);
+        }
+    })), keySize, EXTRA_INDEX_VALUE_SIZE, blockSize);
+}
+
+/**
+ * Turns sorted features into runs of bases with a constant number of overlapping features.
+ * Runs without any features are skipped.
+ */
+class CoverageDepthTracker {
+
+    private chrom?: WriterChrom;
+    private position = 0;
+    // Ends of the features overlapping the current position, sorted.
+    private ends: Array<number> = [];
+
+    constructor(private onRun: (chrom: WriterChrom, start: number, end: number, depth: number) => void) {}
+
+    add(chrom: WriterChrom, start: number, end: number) {
+        if (this.chrom !== chrom) {
+            this.finish();
+            this.chrom = chrom;
+        }
+        this.advance(start);
+        if (start >= end) return;
+        this.position = start;
+        let i = this.ends.length;
+        while (i > 0 && this.ends[i - 1] > end) i--;
+        this.ends.splice(i, 0, end);
+    }
+
+    finish() {
+        this.advance(Infinity);
+        this.ends = [];
+    }
+
+    /**
+     * Reports runs from the current position up to the given base.
+     */
+    private advance(to: number) {
+        while (this.ends.length > 0 && this.position < to) {
+            const runEnd = Math.min(this.ends[0], to);
+            if (runEnd > this.position) this.onRun(this.chrom!, this.position, runEnd, this.ends.length);
+            this.position = runEnd;
+            while (this.ends.length > 0 && this.ends[0] <= this.position) this.ends.shift();
+        }
+    }
+
+}
@@ -0,0 +1,507 @@
+import { deflate } from "pako";
+import { BinaryWriter } from "../util/BinaryWriter";
+import { encodeUtf8 } from "../util/misc";
+import { FileFormatError } from "../loader/DataLoader";
+import { CommonHeader, ZoomLevelHeader, BWTotalSummary } from "./BigWigHeaderReader";
+
+export const BBFILE_HEADER_SIZE = 64;
+export const ZOOM_HEADER_SIZE = 24;
+export const TOTAL_SUMMARY_SIZE = 40;
+export const DEFAULT_BLOCK_SIZE = 256;
+export const DEFAULT_ITEMS_PER_SLOT = 1024;
+export const MAX_ZOOM_LEVELS = 10;
+
+const IDX_MAGIC = 0x2468ACE0;
+const CHROM_TREE_MAGIC = 0x78CA8C91;
+const ZOOM_RECORD_SIZE = 32;
+const INITIAL_REDUCTION = 10;
+const ZOOM_INCREMENT = 4;
+
+/**
+ * Options shared by the BigWig and BigBed writers.
+ */
+export interface BigFileWriterOptions {
+    // Maximum number of children per R+ tree and B+ tree node. Defaults to 256.
+    blockSize?: number;
+    // Maximum number of items per data block. Defaults to 1024.
+    itemsPerSlot?: number;
+    // Whether to zlib compress data blocks. Defaults to true.
+    compress?: boolean;
+    // Maximum number of zoom levels to write. Defaults to 10.
+    zoomLevels?: number;
+}
+
+/**
+ * A chromosome written to a file's chromosome tree.
+ */
+export interface WriterChrom {
+    name: string;
+    id: number;
+    size: number;
+}
+
+/**
+ * An uncompressed block of data for a single chromosome, along with the bases it covers.
+ */
+export interface DataBlock {
+    chromId: number;
+    start: number;
+    end: number;
+    data: ArrayBuffer;
+}
+
+/**
+ * An R+ tree leaf item pointing to a written data block.
+ */
+export interface RPTreeItem {
+    startChrom: number;
+    startBase: number;
+    endChrom: number;
+    endBase: number;
+    dataOffset: number;
+    dataSize: number;
+}
+
+/**
+ * A B+ tree item, with a function writing its fixed size value.
+ */
+export interface BPlusTreeItem {
+    key: string;
+    writeValue: () => void;
+}
+
+/**
+ * A node of a tree being written. Leaf nodes hold items, and other nodes hold the nodes below them.
+ */
+type TreeNode<T> = { leaf: true, items: Array<T> } | { leaf: false, children: Array<TreeNode<T>> };
+
+export interface ZoomRecord {
+    chromId: number;
+    start: number;
+    end: number;
+    validCount: number;
+    minVal: number;
+    maxVal: number;
+    sumData: number;
+    sumSquares: number;
+}
+
+export interface ZoomLevelData {
+    reductionLevel: number;
+    records: Array<ZoomRecord>;
+}
+
+/**
+ * Keeps track of the chromosomes in the order they're found in sorted input data, and checks the ordering.
+ * Chromosome ids are handed out in the order chromosomes are first seen, so the data is always in id order
+ * no matter how the chromosome names sort.
+ */
+export class ChromOrderTracker {
+
+    readonly chroms: Array<WriterChrom> = [];
+    private seen = new Set<string>();
+    private lastStart = -1;
+
+    constructor(private chromSizes: { [chrom: string]: number }) {}
+
+    /**
+     * @returns the chromosome for the given record after checking it comes after the previous record.
+     */
+    next(chrom: string, start: number, end: number): WriterChrom {
+        let current = this.chroms[this.chroms.length - 1];
+        if (current === undefined || current.name !== chrom) {
+            if (this.seen.has(chrom)) {
+                throw new FileFormatError(`Data is not sorted. Chromosome ${chrom} appears in more than one place.`);
+            }
+            const size = this.chromSizes[chrom];
+            if (size === undefined) {
+                throw new FileFormatError(`Chromosome ${chrom} not found in chromosome sizes.`);
+            }
+            current = { name: chrom, id: this.chroms.length, size };
+            this.chroms.push(current);
+            this.seen.add(chrom);
+            this.lastStart = -1;
+        }
+        if (start < this.lastStart) {
+            throw new FileFormatError(`Data is not sorted. ${chrom}:${start} comes after ${chrom}:${this.lastStart}.`);
+        }
+        if (start > end || end > current.size) {
+            throw new FileFormatError(`Invalid range ${chrom}:${start}-${end} for chromosome size ${current.size}.`);
+        }
+        this.lastStart = start;
+        return current;
+    }
+
+    /**
+     * @returns all chromosomes from the chromosome sizes. The ones without data come last, sorted by name.
+     */
+    allChroms(): Array<WriterChrom> {
+        const missing = Object.keys(this.chromSizes).filter((name) => !this.seen.has(name)).sort();
+        return [...this.chroms, ...missing.map((name, i) => ({ name, id: this.chroms.length + i, size: this.chromSizes[name] }))];
+    }
+
+}
+
+/**
+ * Running total summary of all values written to a file.
+ */
+export class TotalSummaryBuilder {
+
+    readonly summary: BWTotalSummary = { basesCovered: 0, minVal: 0, maxVal: 0, sumData: 0, sumSquares: 0 };
+
+    add(bases: number, value: number) {
+        if (bases <= 0) return;
+        if (this.summary.basesCovered === 0) {
+            this.summary.minVal = value;
+            this.summary.maxVal = value;
+        } else {
+            this.summary.minVal = Math.min(this.summary.minVal, value);
+            this.summary.maxVal = Math.max(this.summary.maxVal, value);
+        }
+        this.summary.basesCovered += bases;
+        this.summary.sumData += value * bases;
+        this.summary.sumSquares += value * value * bases;
+    }
+
+}
+
+/**
+ * Summarizes values into zoom records for a single reduction level, the way UCSC tools do.
+ * Each record starts at the first base with data and covers up to reductionLevel bases.
+ */
+class ZoomLevelAccumulator {
+
+    readonly records: Array<ZoomRecord> = [];
+    private current?: ZoomRecord;
+
+    constructor(readonly reductionLevel: number) {}
+
+    add(chrom: WriterChrom, start: number, end: number, value: number) {
+        if (this.current !== undefined && (this.current.chromId !== chrom.id || this.current.end <= start)) {
+            this.flush();
+        }
+        while (start < end) {
+            if (this.current === undefined) {
+                this.current = {
+                    chromId: chrom.id, start, end: Math.min(start + this.reductionLevel, chrom.size),
+                    validCount: 0, minVal: value, maxVal: value, sumData: 0, sumSquares: 0
+                };
+            }
+            const overlapEnd = Math.min(end, this.current.end);
+            const bases = overlapEnd - start;
+            this.current.validCount += bases;
+            this.current.minVal = Math.min(this.current.minVal, value);
+            this.current.maxVal = Math.max(this.current.maxVal, value);
+            this.current.sumData += value * bases;
+            this.current.sumSquares += value * value * bases;
+            if (end < this.current.end) break;
+            // The value spills over into the next record.
+            this.flush();
+            start = overlapEnd;
+        }
+    }
+
+    flush() {
+        if (this.current !== undefined) {
+            this.records.push(this.current);
+            this.current = undefined;
+        }
+    }
+
+}
+
+/**
+ * Builds zoom records for candidate reduction levels (10, 40, 160, ...) in a single pass over the data,
+ * then picks which to keep once all data has been seen.
+ */
+export class ZoomLevelsBuilder {
+
+    private accumulators: Array<ZoomLevelAccumulator> = [];
+
+    constructor(chromSizes: { [chrom: string]: number }, private maxZoomLevels: number = MAX_ZOOM_LEVELS) {
+        const maxChromSize = Object.values(chromSizes).reduce((max, size) => Math.max(max, size), 0);
+        for (let reduction = INITIAL_REDUCTION; maxZoomLevels > 0; reduction *= ZOOM_INCREMENT) {
+            this.accumulators.push(new ZoomLevelAccumulator(reduction));
+            if (reduction >= maxChromSize) break;
+        }
+    }
+
+    add(chrom: WriterChrom, start: number, end: number, value: number) {
+        this.accumulators.forEach((accumulator) => accumulator.add(chrom, start, end, value));
+    }
+
+    /**
+     * @param itemCount number of items in the unzoomed data.
+     * @returns the zoom levels to write, finest first. The first level is the finest one with at most half
+     *      as many records as the unzoomed data. Each following level must have fewer records than the last.
+     */
+    finish(itemCount: number): Array<ZoomLevelData> {
+        this.accumulators.forEach((accumulator) => accumulator.flush());
+        const levels: Array<ZoomLevelData> = [];
+        for (const accumulator of this.accumulators) {
+            if (levels.length >= this.maxZoomLevels || accumulator.records.length === 0) break;
+            const previousCount = levels.length > 0 ? levels[levels.length - 1].records.length : itemCount / 2 + 1;
+            if (accumulator.records.length >= previousCount) {
+                if (levels.length > 0) break;
+                continue;
+            }
+            levels.push({ reductionLevel: accumulator.reductionLevel, records: accumulator.records });
+        }
+        return levels;
+    }
+
+}
+
+/**
+ * Splits zoom records into uncompressed data blocks.
+ */
+export function zoomRecordBlocks(records: Array<ZoomRecord>, itemsPerSlot: number): Array<DataBlock> {
+    return groupIntoBlocks(records, itemsPerSlot, (record) => record.chromId).map((group) => {
+        const writer = new BinaryWriter(group.length * ZOOM_RECORD_SIZE);
+        for (const record of group) {
+            writer.putUInt(record.chromId);
+            writer.putUInt(record.start);
+            writer.putUInt(record.end);
+            writer.putUInt(record.validCount);
+            writer.putFloat(record.minVal);
+            writer.putFloat(record.maxVal);
+            writer.putFloat(record.sumData);
+            writer.putFloat(record.sumSquares);
+        }
+        return {
+            chromId: group[0].chromId,
+            start: group[0].start,
+            end: group.reduce((max, record) => Math.max(max, record.end), 0),
+            data: writer.getData()
+        };
+    });
+}
+
+/**
+ * Groups items in order into lists of at most itemsPerSlot items, without mixing chromosomes.
+ */
+export function groupIntoBlocks<T>(items: Array<T>, itemsPerSlot: number, chromIdOf: (item: T) => number): Array<Array<T>> {
+    const groups: Array<Array<T>> = [];
+    let group: Array<T> = [];
+    for (const item of items) {
+        if (group.length >= itemsPerSlot || (group.length > 0 && chromIdOf(group[0]) !== chromIdOf(item))) {
+            groups.push(group);
+            group = [];
+        }
+        group.push(item);
+    }
+    if (group.length > 0) groups.push(group);
+    return groups;
+}
+
+/**
+ * Writes data blocks, compressing them if asked to.
+ *
+ * @returns R+ tree items pointing to the written blocks.
+ */
+export function writeDataBlocks(writer: BinaryWriter, blocks: Array<DataBlock>, compress: boolean): Array<RPTreeItem> {
+    return blocks.map((block) => {
+        const data = compress ? deflate(new Uint8Array(block.data)) : new Uint8Array(block.data);
+        const dataOffset = writer.position;
+        writer.putBytes(data);
+        return {
+            startChrom: block.chromId, startBase: block.start, endChrom: block.chromId, endBase: block.end,
+            dataOffset, dataSize: data.byteLength
+        };
+    });
+}
+
+/**
+ * Splits items into the nodes of each level of a tree, from the leaves up to the root.
+ */
+function treeLevels<T>(items: Array<T>, blockSize: number): Array<Array<TreeNode<T>>> {
+    const leaves: Array<TreeNode<T>> = [];
+    for (let i = 0; i < items.length || leaves.length === 0; i += blockSize) {
+        leaves.push({ leaf: true, items: items.slice(i, i + blockSize) });
+    }
+    const levels = [leaves];
+    while (levels[levels.length - 1].length > 1) {
+        const below = levels[levels.length - 1];
+        const level: Array<TreeNode<T>> = [];
+        for (let i = 0; i < below.length; i += blockSize) {
+            level.push({ leaf: false, children: below.slice(i, i + blockSize) });
+        }
+        levels.push(level);
+    }
+    return levels;
+}
+
+/**
+ * Writes tree nodes level by level from the root down. Every node is padded to blockSize items.
+ *
+ * @param levels nodes of each level from the leaves up, as built by treeLevels.
+ * @param leafItemSize size of each leaf node item.
+ * @param childItemSize size of each non-leaf node item, not including the child offset.
+ * @param writeLeafItem writes a single leaf item.
+ * @param writeChildItem writes a non-leaf node item for the given child node, not including the child offset.
+ */
+function writeTreeLevels<T>(writer: BinaryWriter, levels: Array<Array<TreeNode<T>>>, blockSize: number,
+    leafItemSize: number, childItemSize: number, writeLeafItem: (item: T) => void,
+    writeChildItem: (child: TreeNode<T>) => void) {
+    const nodeSize = (level: number) => 4 + blockSize * (level === 0 ? leafItemSize : childItemSize + 8);
+    let levelOffset = writer.position;
+    for (let level = levels.length - 1; level >= 0; level--) {
+        const nextLevelOffset = levelOffset + levels[level].length * nodeSize(level);
+        let childIndex = 0;
+        for (const node of levels[level]) {
+            const nodeLength = node.leaf ? node.items.length : node.children.length;
+            writer.putByte(node.leaf ? 1 : 0);
+            writer.putByte(0); // reserved
+            writer.putUShort(nodeLength);
+            if (node.leaf) {
+                node.items.forEach(writeLeafItem);
+            } else {
+                for (const child of node.children) {
+                    writeChildItem(child);
+                    writer.putLong(nextLevelOffset + childIndex++ * nodeSize(level - 1));
+                }
+            }
+            writer.putZeros((blockSize - nodeLength) * (node.leaf ? leafItemSize : childItemSize + 8));
+        }
+        levelOffset = nextLevelOffset;
+    }
+}
+
+/**
+ * Writes a B+ tree mapping keys to fixed size values, like the chromosome tree or BigBed extra indices.
+ *
+ * @param items keys with functions writing their values. Must be sorted by key.
+ * @param keySize size keys are padded to.
+ * @param valSize size of every value.
+ */
+export function writeBPlusTree(writer: BinaryWriter, items: Array<BPlusTreeItem>,
+    keySize: number, valSize: number, blockSize: number) {
+    blockSize = Math.max(1, Math.min(blockSize, items.length));
+    writer.putUInt(CHROM_TREE_MAGIC);
+    writer.putUInt(blockSize);
+    writer.putUInt(keySize);
+    writer.putUInt(valSize);
+    writer.putLong(items.length);
+    writer.putLong(0); // reserved
+
+    const firstKey = (node: TreeNode<BPlusTreeItem>): string => node.leaf ? node.items[0].key : firstKey(node.children[0]);
+    writeTreeLevels(writer, treeLevels(items, blockSize), blockSize, keySize + valSize, keySize,
+        (item) => {
+            writer.putFixedLengthString(item.key, keySize);
+            item.writeValue();
+        },
+        (child) => writer.putFixedLengthString(firstKey(child), keySize));
+}
+
+/**
+ * Writes a chromosome B+ tree. Keys are sorted by name, as lookups require.
+ */
+export function writeChromTree(writer: BinaryWriter, chroms: Array<WriterChrom>, blockSize: number) {
+    const sorted = [...chroms].sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+    const keySize = chroms.reduce((max, chrom) => Math.max(max, encodeUtf8(chrom.name).length), 1);
+    writeBPlusTree(writer, sorted.map((chrom) => ({
+        key: chrom.name,
+        writeValue: () => {
+            writer.putUInt(chrom.id);
+            writer.putUInt(chrom.size);
+        }
+    })), keySize, 8, blockSize);
+}
+
+/**
+ * Writes an R+ tree indexing the given data blocks.
+ *
+ * @param items R+ tree items for the written data blocks, in order.
+ * @param endFileOffset file offset right after the indexed data.
+ */
+export function writeRPTree(writer: BinaryWriter, items: Array<RPTreeItem>, blockSize: number, endFileOffset: number) {
+    writer.putUInt(IDX_MAGIC);
+    writer.putUInt(blockSize);
+    writer.putLong(items.length);
+    const first = items[0], last = items[items.length - 1];
+    writer.putUInt(first ? first.startChrom : 0);
+    writer.putUInt(first ? first.startBase : 0);
+    writer.putUInt(last ? last.endChrom : 0);
+    writer.putUInt(last ? last.endBase : 0);
+    writer.putLong(endFileOffset);
+    writer.putUInt(1); // items per slot
+    writer.putUInt(0); // reserved
+
+    // Bounds of a node are from its first item's start to the furthest end of any of its items.
+    const bounds = (node: TreeNode<RPTreeItem>): RPTreeItem => {
+        const items = node.leaf ? node.items : node.children.map(bounds);
+        const end = items.reduce((a, b) => (b.endChrom > a.endChrom ||
+            (b.endChrom === a.endChrom && b.endBase > a.endBase)) ? b : a);
+        return { ...items[0], endChrom: end.endChrom, endBase: end.endBase };
+    };
+    const writeBounds = (item: RPTreeItem) => {
+        writer.putUInt(item.startChrom);
+        writer.putUInt(item.startBase);
+        writer.putUInt(item.endChrom);
+        writer.putUInt(item.endBase);
+    };
+    writeTreeLevels(writer, treeLevels(items, blockSize), blockSize, 32, 16,
+        (item) => {
+            writeBounds(item);
+            writer.putLong(item.dataOffset);
+            writer.putLong(item.dataSize);
+        },
+        (child) => writeBounds(bounds(child)));
+}
+
+/**
+ * Writes zoom levels, each as a record count, data blocks and an R+ tree index.
+ *
+ * @returns the zoom level headers for the written zoom levels, and the largest uncompressed block size.
+ */
+export function writeZoomLevels(writer: BinaryWriter, zoomLevels: Array<ZoomLevelData>, options: BigFileWriterOptions):
+    { headers: Array<ZoomLevelHeader>, maxBlockSize: number } {
+    let maxBlockSize = 0;
+    const headers = zoomLevels.map((zoomLevel, i) => {
+        const dataOffset = writer.position;
+        writer.putUInt(zoomLevel.records.length);
+        const blocks = zoomRecordBlocks(zoomLevel.records, options.itemsPerSlot || DEFAULT_ITEMS_PER_SLOT);
+        blocks.forEach((block) => maxBlockSize = Math.max(maxBlockSize, block.data.byteLength));
+        const items = writeDataBlocks(writer, blocks, options.compress !== false);
+        const indexOffset = writer.position;
+        writeRPTree(writer, items, options.blockSize || DEFAULT_BLOCK_SIZE, indexOffset);
+        return { index: zoomLevels.length - 1 - i, reductionLevel: zoomLevel.reductionLevel, reserved: 0, dataOffset, indexOffset };
+    });
+    return { headers, maxBlockSize };
+}
+
+/**
+ * Writes the common header and zoom level headers at the start of the file, then returns to the current position.
+ */
+export function writeHeaders(writer: BinaryWriter, magic: number, common: CommonHeader,
+    zoomLevelHeaders: Array<ZoomLevelHeader>, totalSummary: BWTotalSummary) {
+    const position = writer.position;
+    writer.position = 0;
+    writer.putUInt(magic);
+    writer.putUShort(common.bwVersion);
+    writer.putUShort(common.nZoomLevels);
+    writer.putLong(common.chromTreeOffset);
+    writer.putLong(common.fullDataOffset);
+    writer.putLong(common.fullIndexOffset);
+    writer.putUShort(common.fieldCount);
+    writer.putUShort(common.definedFieldCount);
+    writer.putLong(common.autoSqlOffset);
+    writer.putLong(common.totalSummaryOffset);
+    writer.putUInt(common.uncompressBuffSize);
+    writer.putLong(common.reserved);
+
+    for (const zoomLevelHeader of zoomLevelHeaders) {
+        writer.putUInt(zoomLevelHeader.reductionLevel);
+        writer.putUInt(0); // reserved
+        writer.putLong(zoomLevelHeader.dataOffset);
+        writer.putLong(zoomLevelHeader.indexOffset);
+    }
+
+    writer.position = common.totalSummaryOffset;
+    writer.putLong(totalSummary.basesCovered);
+    writer.putDouble(totalSummary.minVal);
+    writer.putDouble(totalSummary.maxVal);
+    writer.putDouble(totalSummary.sumData);
+    writer.putDouble(totalSummary.sumSquares);
+    writer.position = position;
+}
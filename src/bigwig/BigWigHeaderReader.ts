@@ -1,4 +1,4 @@
-import { DataLoader } from "../loader/DataLoader";
+import { DataLoader, BufferedDataLoader, FileFormatError } from "../loader/DataLoader";
 import { BinaryParser } from "../util/BinaryParser";
 import { loadTwoBitHeaderData, SequenceRecord } from "./TwoBitHeaderReader";
 
@@ -10,6 +10,9 @@ const BIGBED_MAGIC_LTH = 0x8789F2EB; // BigBed Magic Low to High
 const BIGBED_MAGIC_HTL = 0xEBF28987; // BigBed Magic High to Low
 const CHROM_TREE_MAGIC = 0x78CA8C91; // Chrom Tree Magic Number
 const BBFILE_HEADER_SIZE = 64;
+const EXTENSION_HEADER_SIZE = 64;
+const EXTRA_INDEX_HEADER_SIZE = 16;
+const EXTRA_INDEX_FIELD_SIZE = 4;
 
 /**
  * Top level interface for all header data
@@ -22,6 +25,7 @@ export interface HeaderData {
     autosql?: string;
     totalSummary?: BWTotalSummary;
     chromTree?: ChromTree;
+    extHeader?: ExtensionHeader;
     sequences?: { [name: string]: number };
 }
 
@@ -45,6 +49,7 @@ export interface CommonHeader {
     autoSqlOffset: number;
     totalSummaryOffset: number;
     uncompressBuffSize: number;
+    // In BigBed version 4+ files this holds the offset of the extension header.
     reserved: number;
 }
 
@@ -64,6 +69,29 @@ export interface BWTotalSummary {
     sumSquares: number;
 }
 
+/**
+ * Extension header for BigBed files (version 4+). Points to the list of extra B+ tree indices, ie. on "name".
+ */
+export interface ExtensionHeader {
+    extensionSize: number;
+    extraIndexCount: number;
+    extraIndexListOffset: number;
+    extraIndices: Array<ExtraIndex>;
+}
+
+/**
+ * An extra B+ tree index over one or more of a BigBed file's fields.
+ * fieldIds are the indices of the fields in the file's columns, where 0 is chrom, and fieldId is the first of them.
+ * Only indices on a single field can be searched, like in the UCSC tools.
+ */
+export interface ExtraIndex {
+    type: number;
+    fieldCount: number;
+    fileOffset: number;
+    fieldId: number;
+    fieldIds: Array<number>;
+}
+
 /**
  * A flattened view of the data stored in a header's "chrom tree". The tree data takes the form of two dictionaries
  * for mapping chromosome names to indexes used by the file and visa versa.
@@ -193,6 +221,12 @@ export async function loadHeaderData(dataLoader: DataLoader): Promise<HeaderData
         buildChromTree(chromTree, binaryParser);
     }
 
+    // Load extension header and extra index list
+    let extHeader: ExtensionHeader | undefined = undefined;
+    if (FileType.BigBed === fileType && commonHeader.bwVersion >= 4 && commonHeader.reserved > 0) {
+        extHeader = await loadExtensionHeader(dataLoader, littleEndian, commonHeader.reserved);
+    }
+
     return {
         fileType: fileType,
         littleEndian: littleEndian,
@@ -200,8 +234,55 @@ export async function loadHeaderData(dataLoader: DataLoader): Promise<HeaderData
         zoomLevelHeaders: zoomLevelHeaders,
         autosql: autosql,
         totalSummary: totalSummary,
-        chromTree: chromTree
+        chromTree: chromTree,
+        extHeader: extHeader
+    }
+}
+
+/**
+ * Loads the BigBed extension header and the list of extra indices it points to.
+ * 
+ * @param dataLoader Provided class that deals with fetching data from the file via http, local file, ftp, etc...
+ * @param littleEndian whether the file is little endian.
+ * @param offset file offset of the extension header.
+ */
+async function loadExtensionHeader(dataLoader: DataLoader, littleEndian: boolean, offset: number): Promise<ExtensionHeader> {
+    const extData: ArrayBuffer = await dataLoader.load(offset, EXTENSION_HEADER_SIZE);
+    const extParser = new BinaryParser(extData, littleEndian);
+    const extHeader: ExtensionHeader = {
+        extensionSize: extParser.getUShort(),
+        extraIndexCount: extParser.getUShort(),
+        extraIndexListOffset: extParser.getLong(),
+        extraIndices: []
+    };
+    if (0 === extHeader.extraIndexCount || 0 === extHeader.extraIndexListOffset) {
+        return extHeader;
+    }
+
+    // Each entry is a fixed size header followed by a (fieldId, reserved) pair for each of its fields.
+    // Indices almost always have a single field, so buffer enough for that and load more if needed.
+    const listLoader = new BufferedDataLoader(dataLoader,
+        extHeader.extraIndexCount * (EXTRA_INDEX_HEADER_SIZE + EXTRA_INDEX_FIELD_SIZE));
+    let entryOffset = extHeader.extraIndexListOffset;
+    for (let i = 0; i < extHeader.extraIndexCount; i++) {
+        const entryParser = new BinaryParser(await listLoader.load(entryOffset, EXTRA_INDEX_HEADER_SIZE), littleEndian);
+        const type = entryParser.getUShort();
+        const fieldCount = entryParser.getUShort();
+        const fileOffset = entryParser.getLong();
+        if (0 === fieldCount) {
+            throw new FileFormatError(`Extra index ${i} has no fields.`);
+        }
+        const fieldParser = new BinaryParser(await listLoader.load(entryOffset + EXTRA_INDEX_HEADER_SIZE,
+            fieldCount * EXTRA_INDEX_FIELD_SIZE), littleEndian);
+        const fieldIds: Array<number> = [];
+        for (let j = 0; j < fieldCount; j++) {
+            fieldIds.push(fieldParser.getUShort());
+            fieldParser.position += 2; // Skip reserved space
+        }
+        extHeader.extraIndices.push({ type, fieldCount, fileOffset, fieldId: fieldIds[0], fieldIds });
+        entryOffset += EXTRA_INDEX_HEADER_SIZE + fieldCount * EXTRA_INDEX_FIELD_SIZE;
     }
+    return extHeader;
 }
 
 /**
@@ -1,7 +1,16 @@
-import { DataLoader, BufferedDataLoader, DataMissingError, FileFormatError } from "../loader/DataLoader";
+import { DataLoader, BufferedDataLoader, DataMissingError, FileFormatError, AbortError, withAbortSignal, throwIfAborted, raceAbortSignal } from "../loader/DataLoader";
 import { BinaryParser } from "../util/BinaryParser";
-import { loadHeaderData, HeaderData, FileType } from "./BigWigHeaderReader";
-import { loadSequenceRecord, loadSequence, SequenceRecord, streamSequence, loadOneHotEncodingFromSequence } from "./TwoBitHeaderReader";
+import { LruCache, CacheStats } from "../util/LruCache";
+import { mapConcurrently } from "../util/misc";
+import { BlockCache } from "./BlockCache";
+import { ChromAliasResolver, resolveChromAlias } from "../alias/ChromAlias";
+import { loadHeaderData, HeaderData, FileType, ChromTree } from "./BigWigHeaderReader";
+import { BigWigSummaryOptions, SummaryData, bestZoomLevel, emptySummary, addValueToSummary, addSummaryToSummary,
+    forEachOverlappingBin, summaryStat, BigWigRegionStats, toRegionStats, BigWigArrayOptions, DenseArrayBuilder } from "./BigWigSummary";
+import { AutoSqlSchema, parseAutoSql } from "./AutoSql";
+import { BigBedDataInteract, parseBigBedInteract, filterInteractsByAnchor } from "./bigInteract";
+import { findExtraIndex, loadExtraIndexBlocks } from "./BigBedExtraIndex";
+import { loadSequenceRecord, loadSequence, SequenceRecord, streamSequence, iterateSequence, loadOneHotEncodingFromSequence } from "./TwoBitHeaderReader";
 import { inflate } from "pako";
 import { Stream, Readable, Writable, Duplex } from "stream";
 import { start } from "repl";
@@ -42,6 +51,15 @@ export interface BigZoomData {
     sumSquares: number
 }
 
+/**
+ * A single region of a chromosome, used for reading data for many regions at once.
+ */
+export interface GenomicRegion {
+    chr: string,
+    start: number,
+    end: number
+}
+
 interface RPLeafNode {
     startChrom: number;
     startBase: number;
@@ -51,13 +69,148 @@ interface RPLeafNode {
     dataSize: number;
 }
 
+/**
+ * A parsed R+ tree node. For internal nodes, each item's dataOffset is the offset of a child node.
+ */
+interface RPTreeNode {
+    isLeaf: boolean;
+    items: Array<RPLeafNode>;
+}
+
 export type ParseFunction<T> = (chrom: string, startBase: number, endBase: number, rest: string) => T;
 
+export type BigBedFilter = (chrom: string, startBase: number, endBase: number, rest: string) => boolean;
+
+/**
+ * Options for reading BigBed data, passed in place of a parse function.
+ *
+ * @prop restParser Parser for reading data. Defaults to parseBigBed.
+ * @prop filter Called with each record's raw chrom, start, end and rest before it is parsed. Only records it returns
+ *      true for are parsed and returned, so records that aren't wanted are never fully parsed.
+ * @prop limit Largest number of records to return. Once this many are found, no further data blocks are fetched.
+ */
+export interface BigBedReadOptions<T> {
+    restParser?: ParseFunction<T>;
+    filter?: BigBedFilter;
+    limit?: number;
+}
+
+export type BigWigSectionType = "bedGraph" | "variableStep" | "fixedStep";
+
+/**
+ * A section of unzoomed wig data, as stored in a BigWig file. All of its items are on one chromosome and
+ * were written with the same encoding.
+ *
+ * @prop type encoding the section was written with.
+ * @prop step bases between item starts for fixedStep sections.
+ * @prop span number of bases covered by each item for variableStep and fixedStep sections.
+ * @prop data the section's items within the range read.
+ */
+export interface BigWigSection {
+    chr: string;
+    start: number;
+    end: number;
+    type: BigWigSectionType;
+    step: number;
+    span: number;
+    data: Array<BigWigData>;
+}
+
+/**
+ * Options for BigWigReader.findNearest.
+ *
+ * @prop k Number of features to find. Defaults to 1.
+ * @prop direction "up" for features before the position, "down" for features after it, or "both". Directions are
+ *      along the reference, and features overlapping the position count for either. Defaults to "both".
+ * @prop strand Only find features on this strand.
+ * @prop restParser Parser for reading data. Defaults to parseBigBed.
+ */
+export interface FindNearestOptions<T> {
+    k?: number;
+    direction?: "up" | "down" | "both";
+    strand?: string;
+    restParser?: ParseFunction<T>;
+}
+
+/**
+ * A feature found by BigWigReader.findNearest.
+ *
+ * @prop distance Signed distance in bases from the position to the feature. 0 if the feature overlaps the
+ *      position, negative if the feature ends before it and positive if the feature starts after it.
+ */
+export interface NearestFeature<T> {
+    feature: T;
+    distance: number;
+}
+
+/**
+ * A chromosome in a file's chromosome tree.
+ *
+ * @prop name the file's name for the chromosome.
+ * @prop id index of the chromosome used by the file's R+ trees.
+ * @prop size chromosome length in bases.
+ */
+export interface ChromosomeInfo {
+    name: string;
+    id: number;
+    size: number;
+}
+
+/**
+ * Options for BigWigReader.iterateAll.
+ *
+ * @prop chroms Only yield data for these chromosomes. Defaults to all chromosomes in the file.
+ * @prop zoomLevelIndex Yield zoom data from this zoom level instead of unzoomed data.
+ */
+export interface IterateAllOptions {
+    chroms?: Array<string>;
+    zoomLevelIndex?: number;
+}
+
+/**
+ * Options for BigWigReader.
+ *
+ * @prop nodeCacheSize Approximate memory in bytes used to keep parsed R+ tree nodes between reads. Zero disables
+ *      the cache. Defaults to 4MB.
+ * @prop blockCache Cache for uncompressed data blocks. Pass the same cache to all readers for a file to share
+ *      blocks between them. Data blocks are not cached if this isn't given.
+ * @prop coalesceGap Data blocks separated by at most this many bytes are fetched with a single request when reading
+ *      data all at once. Defaults to 8KB.
+ * @prop maxConcurrentFetches Maximum number of requests for data blocks made at the same time when reading data
+ *      all at once. Defaults to 4.
+ * @prop chromAliases Resolver for other names of chromosomes, tried when the file doesn't have a chromosome
+ *      under the name asked for. Data is returned with the file's chromosome names.
+ */
+export interface BigWigReaderOptions {
+    nodeCacheSize?: number;
+    blockCache?: BlockCache;
+    coalesceGap?: number;
+    maxConcurrentFetches?: number;
+    chromAliases?: ChromAliasResolver;
+}
+
+/**
+ * Cache statistics for a BigWigReader.
+ *
+ * @prop nodes statistics for the cache of parsed R+ tree nodes.
+ * @prop blocks statistics for the data block cache, if the reader has one.
+ */
+export interface BigWigCacheStats {
+    nodes: CacheStats;
+    blocks?: CacheStats;
+}
+
 const IDX_MAGIC = 0x2468ACE0;
 const RPTREE_HEADER_SIZE = 48;
 const RPTREE_NODE_LEAF_ITEM_SIZE = 32;
 const RPTREE_NODE_CHILD_ITEM_SIZE = 24;
 const DEFAULT_BUFFER_SIZE = 512000;
+const DEFAULT_NODE_CACHE_SIZE = 4 * 1024 * 1024;
+const DEFAULT_COALESCE_GAP = 8192;
+const DEFAULT_MAX_CONCURRENT_FETCHES = 4;
+// Rough memory used by a parsed R+ tree node and each of its items.
+const RPTREE_NODE_MEMORY = 32;
+const RPTREE_NODE_ITEM_MEMORY = 64;
 
 /**
  * Main class for dealing with reading BigWig and BigBed files.
@@ -65,44 +218,117 @@ const DEFAULT_BUFFER_SIZE = 512000;
 export class BigWigReader {
 
     private cachedHeader?: HeaderData;
+    private cachedAutoSql?: AutoSqlSchema;
     private cachedSequenceRecords: { [name: string]: SequenceRecord } = {};
+    private nodeCache: LruCache<number, RPTreeNode>;
+    private blockCache?: BlockCache;
+    private coalesceGap: number;
+    private maxConcurrentFetches: number;
+    private chromAliases?: ChromAliasResolver;
 
     /**
      * @param dataLoader Provided class that deals with fetching data from the file via http, local file, ftp, etc...
      * @param bufferSize Size of the buffer used for fetching data. Used to optimistically read more data than is 
      *      needed for each read of the tree that stores data to avoid round trips. The trade-off is potentially reading 
      *      more data than you need to vs making more round trips.
+     * @param options Options for caching and fetching data blocks.
+     */
+    constructor(private dataLoader: DataLoader, private bufferSize: number = DEFAULT_BUFFER_SIZE,
+        options: BigWigReaderOptions = {}) {
+        const nodeCacheSize = options.nodeCacheSize !== undefined ? options.nodeCacheSize : DEFAULT_NODE_CACHE_SIZE;
+        this.nodeCache = new LruCache(nodeCacheSize,
+            (node: RPTreeNode) => RPTREE_NODE_MEMORY + node.items.length * RPTREE_NODE_ITEM_MEMORY);
+        this.blockCache = options.blockCache;
+        this.coalesceGap = options.coalesceGap !== undefined ? options.coalesceGap : DEFAULT_COALESCE_GAP;
+        this.maxConcurrentFetches = options.maxConcurrentFetches || DEFAULT_MAX_CONCURRENT_FETCHES;
+        this.chromAliases = options.chromAliases;
+    }
+
+    /**
+     * Gets statistics for the caches used between reads.
+     */
+    getCacheStats(): BigWigCacheStats {
+        return {
+            nodes: this.nodeCache.stats,
+            blocks: this.blockCache !== undefined ? this.blockCache.stats : undefined
+        };
+    }
+
+    /**
+     * Clears the caches used between reads, and their statistics. The header is kept.
+     * A block cache shared with other readers is cleared for all of them.
      */
-    constructor(private dataLoader: DataLoader, private bufferSize: number = DEFAULT_BUFFER_SIZE) { }
+    clearCache() {
+        this.nodeCache.clear();
+        if (this.blockCache !== undefined) this.blockCache.clear();
+    }
 
     /**
      * Gets the type of the underlying file.
+     *
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    async fileType(): Promise<FileType> {
-        let header: HeaderData = await this.getHeader();
+    async fileType(signal?: AbortSignal): Promise<FileType> {
+        let header: HeaderData = await this.getHeader(signal);
         return header.fileType;
     }
 
     /**
      * Method for getting all header data for dataLoader's file. Data is loaded on demand and cached for subsequent requests.
+     * 
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    async getHeader(): Promise<HeaderData> {
+    async getHeader(signal?: AbortSignal): Promise<HeaderData> {
         if (!this.cachedHeader) {
-            this.cachedHeader = await loadHeaderData(this.dataLoader);
+            this.cachedHeader = await loadHeaderData(withAbortSignal(this.dataLoader, signal));
         }
         return this.cachedHeader;
     }
 
+    /**
+     * Gets all chromosomes in the file, sorted by their id.
+     *
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async getChromosomes(signal?: AbortSignal): Promise<Array<ChromosomeInfo>> {
+        const header = await this.getHeader(signal);
+        if (undefined == header.chromTree) {
+            throw new FileFormatError("No chromosome tree found in file header.");
+        }
+        const chromTree = header.chromTree;
+        const chroms: Array<ChromosomeInfo> = [];
+        chromTree.idToChrom.forEach((name, id) => chroms.push({ name, id, size: chromTree.chromSize[name] }));
+        return chroms;
+    }
+
+    /**
+     * Method for getting the parsed AutoSql schema of a BigBed file. Returns undefined if the file has no AutoSql.
+     * Use with parseWithAutoSql to read bed data for any BigBed variant.
+     *
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async getAutoSql(signal?: AbortSignal): Promise<AutoSqlSchema | undefined> {
+        const header: HeaderData = await this.getHeader(signal);
+        if (undefined === header.autosql) return undefined;
+        if (!this.cachedAutoSql) {
+            this.cachedAutoSql = parseAutoSql(header.autosql);
+        }
+        return this.cachedAutoSql;
+    }
+
     /**
      * Method for getting a sequence record from a 2bit sequence file. This method is not valid for bigWig or bigBed files.
      *
      * @param chrom the name of the chromosome or other sequence to retrieve.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    async getSequenceRecord(chrom: string): Promise<SequenceRecord> {
-        let header: HeaderData = await this.getHeader();
+    async getSequenceRecord(chrom: string, signal?: AbortSignal): Promise<SequenceRecord> {
+        let header: HeaderData = await this.getHeader(signal);
         if (header.fileType !== FileType.TwoBit) throw new FileFormatError("getSequenceRecord is not valid on " + header.fileType + " files.");
         if (!this.cachedSequenceRecords[chrom]) {
-            this.cachedSequenceRecords[chrom] = await loadSequenceRecord(this.dataLoader, header, chrom);
+            const sequence = resolveChromAlias(chrom, (name) => header.sequences![name] !== undefined, this.chromAliases);
+            this.cachedSequenceRecords[chrom] = await loadSequenceRecord(withAbortSignal(this.dataLoader, signal), header,
+                sequence !== undefined ? sequence : chrom);
         }
         return this.cachedSequenceRecords[chrom];
     }
@@ -114,12 +340,42 @@ export class BigWigReader {
      * @param startBase Starting base pair
      * @param endChrom Ending chromose
      * @param endBase Ending base pair
-     * @param zoomLevelIndex The ZoomLevelHeader.index from the zoom level you want to read from. 
+     * @param [signal] Optional AbortSignal to cancel the read
      */
     async readBigWigData(startChrom: string, startBase: number, endChrom: string,
-        endBase: number): Promise<Array<BigWigData>> {
+        endBase: number, signal?: AbortSignal): Promise<Array<BigWigData>> {
         return this.readData<BigWigData>(startChrom, startBase, endChrom, endBase,
-            (await this.getHeader()).common!.fullIndexOffset, decodeWigData);
+            (await this.getHeader(signal)).common!.fullIndexOffset, decodeWigData, signal);
+    }
+
+    /**
+     * Method for reading unzoomed wig data from BigWig files into a dense array, with one element for each 
+     * binSize bases. Values are decoded straight from the file's data blocks into the array, which is much faster
+     * and uses less memory than readBigWigData for large ranges.
+     * 
+     * @param chrom Chromosome
+     * @param startBase Starting base pair
+     * @param endBase Ending base pair
+     * @param options.binSize Number of bases in each element. Defaults to 1.
+     * @param options.fill Value for elements with no data. Defaults to NaN.
+     * @param options.reducer How values in the same element are combined. Defaults to "mean".
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async readBigWigDataAsArray(chrom: string, startBase: number, endBase: number, options: BigWigArrayOptions = {},
+        signal?: AbortSignal): Promise<Float32Array> {
+        const binSize = options.binSize !== undefined ? options.binSize : 1;
+        if (!Number.isInteger(binSize) || binSize < 1) {
+            throw new RangeError(`binSize must be a positive integer, got ${binSize}.`);
+        }
+        const header = await this.getHeader(signal);
+        const [chromIndex] = await this.getChromIndices(chrom, chrom, signal);
+        const builder = new DenseArrayBuilder(startBase, endBase, binSize, options.reducer || "mean");
+        for (const leafData of await this.readDataBlocks(chromIndex, startBase, chromIndex, endBase,
+            header.common!.fullIndexOffset, signal)) {
+            forEachWigItem(leafData, chromIndex, startBase, chromIndex, endBase,
+                (itemChromIndex, itemStart, itemEnd, value) => builder.add(itemStart, itemEnd, value));
+        }
+        return builder.finish(options.fill !== undefined ? options.fill : NaN);
     }
 
     /**
@@ -129,12 +385,123 @@ export class BigWigReader {
      * @param startBase Starting base pair
      * @param endChrom Ending chromose
      * @param endBase Ending base pair
-     * @param zoomLevelIndex The ZoomLevelHeader.index from the zoom level you want to read from. 
+     * @param [signal] Optional AbortSignal to cancel the read
      */
     async streamBigWigData(startChrom: string, startBase: number, endChrom: string,
-        endBase: number): Promise<Readable> {
+        endBase: number, signal?: AbortSignal): Promise<Readable> {
         return this.streamData<BigWigData>(startChrom, startBase, endChrom, endBase,
-            (await this.getHeader()).common!.fullIndexOffset, decodeWigData);
+            (await this.getHeader(signal)).common!.fullIndexOffset, decodeWigData, signal);
+    }
+
+    /**
+     * Method for iterating over unzoomed wig data from BigWig files with for await. Data is only loaded
+     * as it's iterated over.
+     * 
+     * @param startChrom Starting chromosome
+     * @param startBase Starting base pair
+     * @param endChrom Ending chromose
+     * @param endBase Ending base pair
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async *iterateBigWigData(startChrom: string, startBase: number, endChrom: string,
+        endBase: number, signal?: AbortSignal): AsyncIterableIterator<BigWigData> {
+        yield* this.iterateData<BigWigData>(startChrom, startBase, endChrom, endBase,
+            (await this.getHeader(signal)).common!.fullIndexOffset, decodeWigData, signal);
+    }
+
+    /**
+     * Method for iterating over unzoomed wig data from BigWig files with for await, grouped into the sections
+     * it was stored in, so the original bedGraph, variableStep or fixedStep encoding is known.
+     * Data is only loaded as it's iterated over.
+     * 
+     * @param startChrom Starting chromosome
+     * @param startBase Starting base pair
+     * @param endChrom Ending chromose
+     * @param endBase Ending base pair
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async *iterateBigWigSections(startChrom: string, startBase: number, endChrom: string,
+        endBase: number, signal?: AbortSignal): AsyncIterableIterator<BigWigSection> {
+        yield* this.iterateData<BigWigSection>(startChrom, startBase, endChrom, endBase,
+            (await this.getHeader(signal)).common!.fullIndexOffset, decodeWigSections, signal);
+    }
+
+    /**
+     * Method for reading summarized wig data from BigWig files, similar to UCSC's bigWigSummary.
+     * The range is split into nBins bins, and one value is returned for each. Reads from the coarsest zoom level 
+     * that fits the bin size, or from unzoomed data when the bins are too small for any zoom level.
+     * 
+     * @param chrom Chromosome
+     * @param startBase Starting base pair
+     * @param endBase Ending base pair
+     * @param nBins Number of bins to split the range into
+     * @param options.stat Statistic to return for each bin. Defaults to "mean". Bins with no data are NaN.
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async readBigWigSummary(chrom: string, startBase: number, endBase: number, nBins: number,
+        options: BigWigSummaryOptions = {}, signal?: AbortSignal): Promise<Array<number>> {
+        const header = await this.getHeader(signal);
+        const bins: Array<SummaryData> = [];
+        for (let i = 0; i < nBins; i++) {
+            bins.push(emptySummary());
+        }
+
+        // Use zoom records that summarize at most half a bin each, like UCSC tools do.
+        const zoomLevel = bestZoomLevel(header.zoomLevelHeaders, Math.floor((endBase - startBase) / nBins / 2));
+        if (undefined !== zoomLevel) {
+            const zoomData = await this.readZoomData(chrom, startBase, chrom, endBase, zoomLevel.index, signal);
+            for (const data of zoomData) {
+                forEachOverlappingBin(startBase, endBase, nBins, data.start, data.end, (bin, binStart, binEnd) =>
+                    addSummaryToSummary(bins[bin], data.start, data.end, data, binStart, binEnd));
+            }
+        } else {
+            const wigData = await this.readBigWigData(chrom, startBase, chrom, endBase, signal);
+            for (const data of wigData) {
+                forEachOverlappingBin(startBase, endBase, nBins, data.start, data.end, (bin, binStart, binEnd) =>
+                    addValueToSummary(bins[bin], data.start, data.end, data.value, binStart, binEnd));
+            }
+        }
+
+        const stat = options.stat || "mean";
+        return bins.map((bin, i) => {
+            const binSize = Math.floor((i + 1) * (endBase - startBase) / nBins) - Math.floor(i * (endBase - startBase) / nBins);
+            return summaryStat(bin, stat, binSize);
+        });
+    }
+
+    /**
+     * Method for getting summary statistics over a single region of a BigWig file.
+     * Zoom records that lie fully within the region are used where a zoom level fits, and unzoomed data is read 
+     * for the rest. Values are weighted by the number of bases they cover within the region, so data 
+     * partly overlapping the region's edges is counted exactly.
+     * 
+     * @param chrom Chromosome
+     * @param startBase Starting base pair
+     * @param endBase Ending base pair
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async getRegionStats(chrom: string, startBase: number, endBase: number, signal?: AbortSignal): Promise<BigWigRegionStats> {
+        const header = await this.getHeader(signal);
+        const summary = emptySummary();
+
+        let rawRanges: Array<[number, number]> = [[startBase, endBase]];
+        const zoomLevel = bestZoomLevel(header.zoomLevelHeaders, Math.floor((endBase - startBase) / 2));
+        if (undefined !== zoomLevel) {
+            const zoomData = (await this.readZoomData(chrom, startBase, chrom, endBase, zoomLevel.index, signal))
+                .filter((data) => data.start >= startBase && data.end <= endBase);
+            if (zoomData.length > 0) {
+                zoomData.forEach((data) => addSummaryToSummary(summary, data.start, data.end, data, startBase, endBase));
+                // Zoom records don't overlap, so only the edges outside of them are left to read.
+                rawRanges = [[startBase, zoomData[0].start], [zoomData[zoomData.length - 1].end, endBase]];
+            }
+        }
+
+        for (const [rawStart, rawEnd] of rawRanges) {
+            if (rawEnd <= rawStart) continue;
+            const wigData = await this.readBigWigData(chrom, rawStart, chrom, rawEnd, signal);
+            wigData.forEach((data) => addValueToSummary(summary, data.start, data.end, data.value, rawStart, rawEnd));
+        }
+        return toRegionStats(chrom, startBase, endBase, summary);
     }
 
     /**
@@ -144,13 +511,24 @@ export class BigWigReader {
      * @param startBase Starting base pair
      * @param endChrom Ending chromose
      * @param endBase Ending base pair
-     * @param [restParser] Parser for reading data
+     * @param [restParser] Parser for reading data, or options with a parser, a filter and a limit.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    async readBigBedData(startChrom: string, startBase: number, endChrom: string, endBase: number): Promise<Array<BigBedData>>;
-    async readBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser: ParseFunction<T>): Promise<Array<T>>;
-    async readBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser?: ParseFunction<T>): Promise<Array<(T | BigBedData)>> {
-        return this.readData(startChrom, startBase, endChrom, endBase,
-            (await this.getHeader()).common!.fullIndexOffset, decodeBedData(restParser || parseBigBed as any));
+    async readBigBedData(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser?: undefined, signal?: AbortSignal): Promise<Array<BigBedData>>;
+    async readBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser: ParseFunction<T>, signal?: AbortSignal): Promise<Array<T>>;
+    async readBigBedData<T = BigBedData>(startChrom: string, startBase: number, endChrom: string, endBase: number, options: BigBedReadOptions<T>, signal?: AbortSignal): Promise<Array<T>>;
+    async readBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser?: ParseFunction<T> | BigBedReadOptions<T>, signal?: AbortSignal): Promise<Array<(T | BigBedData)>> {
+        const { decodeFunction, limit } = bedDecodeOptions(restParser);
+        const treeOffset = (await this.getHeader(signal)).common!.fullIndexOffset;
+        if (limit === undefined) {
+            return this.readData(startChrom, startBase, endChrom, endBase, treeOffset, decodeFunction, signal);
+        }
+        // Load blocks one at a time, so blocks after the limit is reached are never fetched.
+        const data: Array<T | BigBedData> = [];
+        for await (const d of this.iterateData(startChrom, startBase, endChrom, endBase, treeOffset, decodeFunction, signal, limit)) {
+            data.push(d);
+        }
+        return data;
     }
 
     /**
@@ -160,13 +538,203 @@ export class BigWigReader {
      * @param startBase Starting base pair
      * @param endChrom Ending chromose
      * @param endBase Ending base pair
-     * @param [restParser] Parser for reading data
+     * @param [restParser] Parser for reading data, or options with a parser, a filter and a limit.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    async streamBigBedData(startChrom: string, startBase: number, endChrom: string, endBase: number): Promise<Readable>;
-    async streamBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser: ParseFunction<T>): Promise<Readable>;
-    async streamBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser?: ParseFunction<T>): Promise<Readable> {
+    async streamBigBedData(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser?: undefined, signal?: AbortSignal): Promise<Readable>;
+    async streamBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser: ParseFunction<T>, signal?: AbortSignal): Promise<Readable>;
+    async streamBigBedData<T = BigBedData>(startChrom: string, startBase: number, endChrom: string, endBase: number, options: BigBedReadOptions<T>, signal?: AbortSignal): Promise<Readable>;
+    async streamBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser?: ParseFunction<T> | BigBedReadOptions<T>, signal?: AbortSignal): Promise<Readable> {
+        const { decodeFunction, limit } = bedDecodeOptions(restParser);
         return this.streamData<T>(startChrom, startBase, endChrom, endBase,
-            (await this.getHeader()).common!.fullIndexOffset, decodeBedData(restParser || parseBigBed as any));
+            (await this.getHeader(signal)).common!.fullIndexOffset, decodeFunction, signal, limit);
+    }
+
+    /**
+     * Method for iterating over unzoomed bed data from BigBed files with for await. Data is only loaded
+     * as it's iterated over.
+     * 
+     * @param startChrom Starting chromosome
+     * @param startBase Starting base pair
+     * @param endChrom Ending chromose
+     * @param endBase Ending base pair
+     * @param [restParser] Parser for reading data, or options with a parser, a filter and a limit.
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    iterateBigBedData(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser?: undefined, signal?: AbortSignal): AsyncIterableIterator<BigBedData>;
+    iterateBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser: ParseFunction<T>, signal?: AbortSignal): AsyncIterableIterator<T>;
+    iterateBigBedData<T = BigBedData>(startChrom: string, startBase: number, endChrom: string, endBase: number, options: BigBedReadOptions<T>, signal?: AbortSignal): AsyncIterableIterator<T>;
+    async *iterateBigBedData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number, restParser?: ParseFunction<T> | BigBedReadOptions<T>, signal?: AbortSignal): AsyncIterableIterator<T | BigBedData> {
+        const { decodeFunction, limit } = bedDecodeOptions(restParser);
+        yield* this.iterateData(startChrom, startBase, endChrom, endBase,
+            (await this.getHeader(signal)).common!.fullIndexOffset, decodeFunction, signal, limit);
+    }
+
+    /**
+     * Method for reading interactions from bigInteract files for a viewport. The R+ tree indexes each interaction's
+     * full span, so interactions are kept only if their source or target anchor overlaps the range, and each
+     * interaction is only returned once.
+     * 
+     * @param chrom Chromosome
+     * @param startBase Starting base pair
+     * @param endBase Ending base pair
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async readBigInteractData(chrom: string, startBase: number, endBase: number,
+        signal?: AbortSignal): Promise<Array<BigBedDataInteract>> {
+        const interactions = await this.readBigBedData(chrom, startBase, chrom, endBase, parseBigBedInteract, signal);
+        // Anchors use the file's chromosome names, which may differ from the one asked for.
+        const fileChrom = interactions.length > 0 ? interactions[0].chr : chrom;
+        return filterInteractsByAnchor(interactions, fileChrom, startBase, endBase);
+    }
+
+    /**
+     * Method for counting BigBed features in bins, for overview and density tracks. The range is split into nBins
+     * bins, and one count is returned for each.
+     * 
+     * When a zoom level fits the bin size, like in readBigWigSummary, counts come from the zoom records' validCount,
+     * with records partly overlapping a bin weighted by their overlap. For BigBed files validCount is the number of
+     * bases covered by features, so these counts follow feature density but are not numbers of features.
+     * Otherwise each feature overlapping a bin is counted once for that bin. Only the chrom, start and end of each
+     * record are read, so the rest of the record is never decoded or parsed.
+     * 
+     * @param chrom Chromosome
+     * @param startBase Starting base pair
+     * @param endBase Ending base pair
+     * @param nBins Number of bins to split the range into
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async countBigBedFeatures(chrom: string, startBase: number, endBase: number, nBins: number,
+        signal?: AbortSignal): Promise<Array<number>> {
+        const header = await this.getHeader(signal);
+        const counts: Array<number> = new Array(nBins).fill(0);
+
+        const zoomLevel = bestZoomLevel(header.zoomLevelHeaders, Math.floor((endBase - startBase) / nBins / 2));
+        if (undefined !== zoomLevel) {
+            for (const data of await this.readZoomData(chrom, startBase, chrom, endBase, zoomLevel.index, signal)) {
+                forEachOverlappingBin(startBase, endBase, nBins, data.start, data.end, (bin, binStart, binEnd) => {
+                    const overlap = Math.min(data.end, binEnd) - Math.max(data.start, binStart);
+                    if (overlap > 0) counts[bin] += data.validCount * overlap / (data.end - data.start);
+                });
+            }
+            return counts;
+        }
+
+        const [chromIndex] = await this.getChromIndices(chrom, chrom, signal);
+        const blocks = await this.readDataBlocks(chromIndex, startBase, chromIndex, endBase, header.common!.fullIndexOffset, signal);
+        for (const data of blocks) {
+            forEachBedRecord(data, chromIndex, startBase, chromIndex, endBase, (recordChromIndex, recordStart, recordEnd) =>
+                forEachOverlappingBin(startBase, endBase, nBins, recordStart, recordEnd, (bin, binStart, binEnd) => {
+                    if (Math.min(recordEnd, binEnd) > Math.max(recordStart, binStart)) counts[bin]++;
+                }));
+        }
+        return counts;
+    }
+
+    /**
+     * Method for finding the features in a BigBed file closest to a position, like bedtools closest.
+     * Data blocks are loaded outward from the position, closest first, and loading stops as soon as no block
+     * left can hold a feature closer than the k found so far.
+     * 
+     * @param chrom Chromosome
+     * @param pos Position, as a 0-based base
+     * @param options.k Number of features to find. Defaults to 1.
+     * @param options.direction "up", "down" or "both" (default), along the reference.
+     * @param options.strand Only find features on this strand.
+     * @param options.restParser Parser for reading data. Defaults to parseBigBed.
+     * @param [signal] Optional AbortSignal to cancel the read
+     * @returns Up to k features, closest first. Features at the same distance are sorted by start.
+     */
+    async findNearest<T = BigBedData>(chrom: string, pos: number, options: FindNearestOptions<T> = {},
+        signal?: AbortSignal): Promise<Array<NearestFeature<T>>> {
+        const k = options.k !== undefined ? options.k : 1;
+        if (!Number.isInteger(k) || k < 1) {
+            throw new RangeError(`k must be a positive integer, got ${k}.`);
+        }
+        const direction = options.direction || "both";
+        const header = await this.getHeader(signal);
+        if (undefined == header.chromTree) {
+            throw new FileFormatError("No chromosome tree found in file header.");
+        }
+        const chromIndex = this.getChromIndex(header.chromTree, chrom);
+        const strandColumn = options.strand !== undefined ? await this.getStrandColumn(header, signal) : -1;
+        const distanceTo = (start: number, end: number) => end <= pos ? end - 1 - pos : start > pos ? start - pos : 0;
+
+        const bufferedLoader = new BufferedDataLoader(withAbortSignal(this.dataLoader, signal), this.bufferSize);
+        const leafNodes = await this.loadLeafNodes(bufferedLoader, header.common!.fullIndexOffset,
+            (node) => node.startChrom <= chromIndex && chromIndex <= node.endChrom);
+        // The closest any feature in a block can be, from the bounds of its leaf node on this chromosome.
+        const blocks = leafNodes.map((leafNode) => {
+            const start = leafNode.startChrom < chromIndex ? 0 : leafNode.startBase;
+            const end = leafNode.endChrom > chromIndex ? Infinity : leafNode.endBase;
+            return { leafNode, start, end, minDistance: Math.abs(distanceTo(start, end)) };
+        }).filter((block) => direction === "both" || (direction === "up" ? block.start <= pos : block.end > pos))
+            .sort((a, b) => a.minDistance - b.minDistance);
+
+        // Keep each feature's start with it, for sorting, since parsed features may not have one.
+        const restParser: ParseFunction<T> = options.restParser || parseBigBed as any;
+        const decodeFunction = decodeBedData((chrom, start, end, rest) =>
+            ({ feature: restParser(chrom, start, end, rest), distance: distanceTo(start, end), start }),
+            (chrom, start, end, rest) => (direction !== "up" || start <= pos) && (direction !== "down" || end > pos) &&
+                (options.strand === undefined || rest.split("\t")[strandColumn] === options.strand));
+        const found: Array<NearestFeature<T> & { start: number }> = [];
+        for (const block of blocks) {
+            if (found.length >= k && Math.abs(found[k - 1].distance) < block.minDistance) break;
+            const leafData = await this.loadLeafData(bufferedLoader, block.leafNode, signal);
+            found.push(...decodeFunction(leafData, chromIndex, 0, chromIndex, Number.MAX_SAFE_INTEGER, header.chromTree.idToChrom));
+            found.sort((a, b) => Math.abs(a.distance) - Math.abs(b.distance) || a.start - b.start);
+        }
+        return found.slice(0, k).map(({ feature, distance }) => ({ feature, distance }));
+    }
+
+    /**
+     * Finds which of the tab-separated columns after chrom, chromStart and chromEnd holds the strand, from the
+     * file's AutoSql. Files without AutoSql are read as standard BED.
+     *
+     * @param header Header of the file
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    private async getStrandColumn(header: HeaderData, signal?: AbortSignal): Promise<number> {
+        const autoSql = await this.getAutoSql(signal);
+        const column = autoSql !== undefined ? autoSql.fields.findIndex((field) => field.name === "strand") - 3 :
+            header.common!.definedFieldCount >= 6 ? 2 : -1;
+        if (column < 0) {
+            throw new FileFormatError("Can't filter by strand, the file has no strand field.");
+        }
+        return column;
+    }
+
+    /**
+     * Method for finding bed data in BigBed files by the value of an indexed field, ie. "name".
+     * Uses the extra B+ tree indices pointed to by the file's extension header.
+     * 
+     * @param field Name of the indexed field
+     * @param value Value of the field to search for
+     * @param [restParser] Parser for reading data
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async searchBigBedByField(field: string, value: string, restParser?: undefined, signal?: AbortSignal): Promise<Array<BigBedData>>;
+    async searchBigBedByField<T>(field: string, value: string, restParser: ParseFunction<T>, signal?: AbortSignal): Promise<Array<T>>;
+    async searchBigBedByField<T>(field: string, value: string, restParser?: ParseFunction<T>, signal?: AbortSignal): Promise<Array<(T | BigBedData)>> {
+        const header = await this.getHeader(signal);
+        if (header.fileType !== FileType.BigBed) throw new FileFormatError("searchBigBedByField is not valid on " + header.fileType + " files.");
+        if (undefined == header.chromTree) {
+            throw new FileFormatError("No chromosome tree found in file header.");
+        }
+        const extraIndex = findExtraIndex(header, field);
+
+        const bufferedLoader = new BufferedDataLoader(withAbortSignal(this.dataLoader, signal), this.bufferSize);
+        const blocks = await loadExtraIndexBlocks(bufferedLoader, header.littleEndian, extraIndex.fileOffset, value);
+        const decodeFunction = decodeBedDataByField<T>(restParser || parseBigBed as any, extraIndex.fieldId, value);
+        const data: Array<T> = [];
+        for (const block of blocks) {
+            let blockData = new Uint8Array(await bufferedLoader.load(block.offset, block.size));
+            if (header.common!.uncompressBuffSize > 0) {
+                blockData = inflate(blockData);
+            }
+            data.push(...decodeFunction(blockData.buffer as ArrayBuffer, header.chromTree.idToChrom));
+        }
+        return data;
     }
 
     /**
@@ -175,10 +743,11 @@ export class BigWigReader {
      * @param chrom the chromosome from which to read.
      * @param startBase the starting base.
      * @param endBase the ending base.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    async readTwoBitData(chrom: string, startBase: number, endBase: number): Promise<string> {
-        const sequence: SequenceRecord = await this.getSequenceRecord(chrom);
-        return loadSequence(this.dataLoader, this.cachedHeader!, sequence, startBase, endBase);
+    async readTwoBitData(chrom: string, startBase: number, endBase: number, signal?: AbortSignal): Promise<string> {
+        const sequence: SequenceRecord = await this.getSequenceRecord(chrom, signal);
+        return loadSequence(withAbortSignal(this.dataLoader, signal), this.cachedHeader!, sequence, startBase, endBase);
     }
 
     /**
@@ -187,10 +756,11 @@ export class BigWigReader {
      * @param chrom the chromosome from which to read.
      * @param startBase the starting base.
      * @param endBase the ending base.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    async readTwoBitDataMatrix(chrom: string, startBase: number, endBase: number): Promise<Array<Array<number>>> {
-        const sequence: SequenceRecord = await this.getSequenceRecord(chrom);
-        return loadOneHotEncodingFromSequence(this.dataLoader, this.cachedHeader!, sequence, startBase, endBase);
+    async readTwoBitDataMatrix(chrom: string, startBase: number, endBase: number, signal?: AbortSignal): Promise<Array<Array<number>>> {
+        const sequence: SequenceRecord = await this.getSequenceRecord(chrom, signal);
+        return loadOneHotEncodingFromSequence(withAbortSignal(this.dataLoader, signal), this.cachedHeader!, sequence, startBase, endBase);
     }
     /**
      * Method for reading Two Bit sequence data from TwoBit files.
@@ -198,10 +768,28 @@ export class BigWigReader {
      * @param chrom the chromosome from which to read.
      * @param startBase the starting base.
      * @param endBase the ending base.
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async streamTwoBitData(chrom: string, startBase: number, endBase: number, chunkSize: number = 1024, oneHotEncodedData= false,
+        signal?: AbortSignal): Promise<Readable> {
+        const sequence: SequenceRecord = await this.getSequenceRecord(chrom, signal);
+        return streamSequence(withAbortSignal(this.dataLoader, signal), this.cachedHeader!, sequence, startBase, endBase, chunkSize, oneHotEncodedData);
+    }
+
+    /**
+     * Method for iterating over Two Bit sequence data from TwoBit files with for await, in chunks of chunkSize bases.
+     * Each chunk is only loaded as it's iterated over.
+     *
+     * @param chrom the chromosome from which to read.
+     * @param startBase the starting base.
+     * @param endBase the ending base.
+     * @param chunkSize the number of bases in each chunk.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    async streamTwoBitData(chrom: string, startBase: number, endBase: number, chunkSize: number = 1024, oneHotEncodedData= false): Promise<Readable> {
-        const sequence: SequenceRecord = await this.getSequenceRecord(chrom);
-        return streamSequence(this.dataLoader, this.cachedHeader!, sequence, startBase, endBase, chunkSize, oneHotEncodedData);
+    async *iterateTwoBitData(chrom: string, startBase: number, endBase: number, chunkSize: number = 1024,
+        signal?: AbortSignal): AsyncIterableIterator<string> {
+        const sequence: SequenceRecord = await this.getSequenceRecord(chrom, signal);
+        yield* iterateSequence(withAbortSignal(this.dataLoader, signal), this.cachedHeader!, sequence, startBase, endBase, chunkSize);
     }
 
     /**
@@ -212,16 +800,17 @@ export class BigWigReader {
      * @param endChrom Ending chromose
      * @param endBase Ending base pair
      * @param zoomLevelIndex index of the zoom level. You can call getHeader() for a list of these values under HeaderData.zoomLevelHeaders.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
     async readZoomData(startChrom: string, startBase: number, endChrom: string, endBase: number,
-        zoomLevelIndex: number): Promise<Array<BigZoomData>> {
-        const header = await this.getHeader();
+        zoomLevelIndex: number, signal?: AbortSignal): Promise<Array<BigZoomData>> {
+        const header = await this.getHeader(signal);
         if (undefined == header.zoomLevelHeaders || !(zoomLevelIndex in header.zoomLevelHeaders)) {
             throw new FileFormatError("Given zoomLevelIndex not found in zoom level headers.");
         }
         const treeOffset = header.zoomLevelHeaders[zoomLevelIndex].indexOffset;
         return this.readData<BigZoomData>(startChrom, startBase, endChrom, endBase,
-            treeOffset, decodeZoomData);
+            treeOffset, decodeZoomData, signal);
     }
 
     /**
@@ -232,100 +821,517 @@ export class BigWigReader {
      * @param endChrom Ending chromose
      * @param endBase Ending base pair
      * @param zoomLevelIndex index of the zoom level. You can call getHeader() for a list of these values under HeaderData.zoomLevelHeaders.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
     async streamZoomData(startChrom: string, startBase: number, endChrom: string, endBase: number,
-        zoomLevelIndex: number): Promise<Readable> {
-        const header = await this.getHeader();
+        zoomLevelIndex: number, signal?: AbortSignal): Promise<Readable> {
+        const header = await this.getHeader(signal);
         if (undefined == header.zoomLevelHeaders || !(zoomLevelIndex in header.zoomLevelHeaders)) {
             throw new FileFormatError("Given zoomLevelIndex not found in zoom level headers.");
         }
         const treeOffset = header.zoomLevelHeaders[zoomLevelIndex].indexOffset;
         return this.streamData<BigZoomData>(startChrom, startBase, endChrom, endBase,
-            treeOffset, decodeZoomData);
+            treeOffset, decodeZoomData, signal);
     }
 
     /**
-     * Method containing all the shared functionality for reading BigWig and BigBed files.
+     * Method for iterating over zoomed data from BigWig and BigBed files with for await. Data is only loaded
+     * as it's iterated over.
      * 
      * @param startChrom Starting chromosome
      * @param startBase Starting base pair
-     * @param endChrom Ending chromosome
+     * @param endChrom Ending chromose
      * @param endBase Ending base pair
-     * @param treeOffset Location of the R+ tree that stores the data we're interested.
-     * @param decodeFunction 
+     * @param zoomLevelIndex index of the zoom level. You can call getHeader() for a list of these values under HeaderData.zoomLevelHeaders.
+     * @param [signal] Optional AbortSignal to cancel the read
      */
-    private async loadData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number,
-        treeOffset: number, streamMode: boolean, decodeFunction: DecodeFunction<T>,
-        loadFunction: LoadFunction<T>): Promise<void> {
-        const header = await this.getHeader();
+    async *iterateZoomData(startChrom: string, startBase: number, endChrom: string, endBase: number,
+        zoomLevelIndex: number, signal?: AbortSignal): AsyncIterableIterator<BigZoomData> {
+        const header = await this.getHeader(signal);
+        if (undefined == header.zoomLevelHeaders || !(zoomLevelIndex in header.zoomLevelHeaders)) {
+            throw new FileFormatError("Given zoomLevelIndex not found in zoom level headers.");
+        }
+        const treeOffset = header.zoomLevelHeaders[zoomLevelIndex].indexOffset;
+        yield* this.iterateData<BigZoomData>(startChrom, startBase, endChrom, endBase,
+            treeOffset, decodeZoomData, signal);
+    }
+
+    /**
+     * Method for iterating over all data in BigWig and BigBed files with for await, without giving coordinates.
+     * Walks the R+ tree's leaves in file order, which is sorted by chromosome id, and yields every record in them.
+     * Yields BigWigData for BigWig files and BigBedData for BigBed files, or BigZoomData when a zoomLevelIndex is given.
+     * Like the other iterate methods, data is only loaded as it's iterated over.
+     *
+     * @param options.chroms Only yield data for these chromosomes. Data is still yielded in file order.
+     * @param options.zoomLevelIndex index of the zoom level to read instead of unzoomed data.
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    iterateAll(options: IterateAllOptions & { zoomLevelIndex: number }, signal?: AbortSignal): AsyncIterableIterator<BigZoomData>;
+    iterateAll(options?: IterateAllOptions, signal?: AbortSignal): AsyncIterableIterator<BigWigData | BigBedData>;
+    async *iterateAll(options: IterateAllOptions = {}, signal?: AbortSignal): AsyncIterableIterator<BigWigData | BigBedData | BigZoomData> {
+        const header = await this.getHeader(signal);
         if (undefined == header.chromTree) {
             throw new FileFormatError("No chromosome tree found in file header.");
         }
-        const startChromIndex: number = header.chromTree.chromToId[startChrom];
-        const endChromIndex: number = header.chromTree.chromToId[endChrom];
-        if (undefined == startChromIndex) {
-            throw new DataMissingError(startChrom);
+        const chromTree = header.chromTree;
+
+        let treeOffset = header.common!.fullIndexOffset;
+        let decodeFunction: DecodeFunction<BigWigData | BigBedData | BigZoomData> =
+            header.fileType === FileType.BigWig ? decodeWigData : decodeBedData(parseBigBed);
+        if (options.zoomLevelIndex !== undefined) {
+            if (undefined == header.zoomLevelHeaders || !(options.zoomLevelIndex in header.zoomLevelHeaders)) {
+                throw new FileFormatError("Given zoomLevelIndex not found in zoom level headers.");
+            }
+            treeOffset = header.zoomLevelHeaders[options.zoomLevelIndex].indexOffset;
+            decodeFunction = decodeZoomData;
+        }
+
+        const chromIds = options.chroms !== undefined ?
+            new Set(options.chroms.map((chrom) => this.getChromIndex(chromTree, chrom))) : undefined;
+        const ids = chromIds !== undefined ? Array.from(chromIds) : [];
+        const filter = (node: RPLeafNode) => chromIds === undefined ||
+            ids.some((id) => node.startChrom <= id && id <= node.endChrom);
+
+        // Decode with bounds covering the whole file, so no records are filtered out by position.
+        const lastChromIndex = chromTree.idToChrom.length;
+        const bufferedLoader = new BufferedDataLoader(withAbortSignal(this.dataLoader, signal), this.bufferSize);
+        const leafNodes = await this.loadLeafNodes(bufferedLoader, treeOffset, filter);
+        for (const leafNode of leafNodes) {
+            const leafData = await this.loadLeafData(bufferedLoader, leafNode, signal);
+            for (const d of decodeFunction(leafData, 0, 0, lastChromIndex, Number.MAX_SAFE_INTEGER, chromTree.idToChrom)) {
+                if (chromIds === undefined || chromIds.has(chromTree.chromToId[d.chr])) yield d;
+            }
+        }
+    }
+
+    /**
+     * Method for reading unzoomed wig data from BigWig files for many regions at once. The R+ tree is only
+     * traversed once, and each data block is only fetched once, no matter how many regions it holds data for.
+     * 
+     * @param regions Regions to read data for
+     * @param [signal] Optional AbortSignal to cancel the read
+     * @returns The data for each region, in the same order as the regions.
+     */
+    async readBigWigDataForRegions(regions: Array<GenomicRegion>, signal?: AbortSignal): Promise<Array<Array<BigWigData>>> {
+        return this.readDataForRegions<BigWigData>(regions, (await this.getHeader(signal)).common!.fullIndexOffset, decodeWigData, signal);
+    }
+
+    /**
+     * Method for reading unzoomed bed data from BigBed files for many regions at once. The R+ tree is only
+     * traversed once, and each data block is only fetched once, no matter how many regions it holds data for.
+     * 
+     * @param regions Regions to read data for
+     * @param [restParser] Parser for reading data
+     * @param [signal] Optional AbortSignal to cancel the read
+     * @returns The data for each region, in the same order as the regions.
+     */
+    async readBigBedDataForRegions(regions: Array<GenomicRegion>, restParser?: undefined, signal?: AbortSignal): Promise<Array<Array<BigBedData>>>;
+    async readBigBedDataForRegions<T>(regions: Array<GenomicRegion>, restParser: ParseFunction<T>, signal?: AbortSignal): Promise<Array<Array<T>>>;
+    async readBigBedDataForRegions<T>(regions: Array<GenomicRegion>, restParser?: ParseFunction<T>, signal?: AbortSignal): Promise<Array<Array<(T | BigBedData)>>> {
+        return this.readDataForRegions(regions, (await this.getHeader(signal)).common!.fullIndexOffset,
+            decodeBedData(restParser || parseBigBed as any), signal);
+    }
+
+    /**
+     * Method for reading zoomed data from BigWig and BigBed files for many regions at once. The R+ tree is only
+     * traversed once, and each data block is only fetched once, no matter how many regions it holds data for.
+     * 
+     * @param regions Regions to read data for
+     * @param zoomLevelIndex index of the zoom level. You can call getHeader() for a list of these values under HeaderData.zoomLevelHeaders.
+     * @param [signal] Optional AbortSignal to cancel the read
+     * @returns The data for each region, in the same order as the regions.
+     */
+    async readZoomDataForRegions(regions: Array<GenomicRegion>, zoomLevelIndex: number, signal?: AbortSignal): Promise<Array<Array<BigZoomData>>> {
+        const header = await this.getHeader(signal);
+        if (undefined == header.zoomLevelHeaders || !(zoomLevelIndex in header.zoomLevelHeaders)) {
+            throw new FileFormatError("Given zoomLevelIndex not found in zoom level headers.");
         }
-        if (undefined == endChromIndex) {
-            throw new DataMissingError(endChrom);
+        return this.readDataForRegions<BigZoomData>(regions, header.zoomLevelHeaders[zoomLevelIndex].indexOffset, decodeZoomData, signal);
+    }
+
+    /**
+     * Gets the file's chromosome indices for the given chromosomes, used in the R+ tree.
+     * 
+     * @param startChrom Starting chromosome
+     * @param endChrom Ending chromosome
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    private async getChromIndices(startChrom: string, endChrom: string, signal?: AbortSignal): Promise<[number, number]> {
+        const header = await this.getHeader(signal);
+        if (undefined == header.chromTree) {
+            throw new FileFormatError("No chromosome tree found in file header.");
         }
+        return [this.getChromIndex(header.chromTree, startChrom), this.getChromIndex(header.chromTree, endChrom)];
+    }
 
-        // Load all leaf nodes within given chr / base bounds for the R+ tree used for actually storing the data.
-        const bufferedLoader = new BufferedDataLoader(this.dataLoader, this.bufferSize, streamMode);
-        const magic = new BinaryParser(await bufferedLoader.load(treeOffset, RPTREE_HEADER_SIZE)).getUInt();
-        if (IDX_MAGIC !== magic) {
-            throw new FileFormatError(`R+ tree not found at offset ${treeOffset}`);
+    /**
+     * Gets the file's chromosome index for the given chromosome, trying its aliases if the file doesn't have the name.
+     * 
+     * @param chromTree The file's chromosome tree
+     * @param chrom Chromosome name
+     */
+    private getChromIndex(chromTree: ChromTree, chrom: string): number {
+        const name = resolveChromAlias(chrom, (name) => undefined != chromTree.chromToId[name], this.chromAliases);
+        if (undefined == name) {
+            throw new DataMissingError(chrom);
         }
+        return chromTree.chromToId[name];
+    }
+
+    /**
+     * Loads all leaf nodes of an R+ tree that pass the given filter.
+     * 
+     * @param bufferedLoader Buffered data loader used to load the tree.
+     * @param treeOffset Location of the R+ tree that stores the data we're interested.
+     * @param filter returns whether a node with the given chr / base bounds should be included
+     */
+    private async loadLeafNodes(bufferedLoader: BufferedDataLoader, treeOffset: number,
+        filter: (node: RPLeafNode) => boolean): Promise<Array<RPLeafNode>> {
+        const header = await this.getHeader();
         const rootNodeOffset = treeOffset + RPTREE_HEADER_SIZE;
-        const leafNodes: Array<RPLeafNode> = await loadLeafNodesForRPNode(bufferedLoader, header.littleEndian, rootNodeOffset,
-            startChromIndex, startBase, endChromIndex, endBase);
+        // The tree header was already checked if its root node is cached.
+        if (!this.nodeCache.has(rootNodeOffset)) {
+            const magic = new BinaryParser(await bufferedLoader.load(treeOffset, RPTREE_HEADER_SIZE)).getUInt();
+            if (IDX_MAGIC !== magic) {
+                throw new FileFormatError(`R+ tree not found at offset ${treeOffset}`);
+            }
+        }
+        return loadLeafNodesForRPNode(bufferedLoader, header.littleEndian, rootNodeOffset, filter, this.nodeCache);
+    }
 
-        // Iterate through filtered leaf nodes, load the data, and decode it
+    /**
+     * Loads the data block for a leaf node, and uncompresses it if the file is compressed.
+     * Blocks are taken from and added to the block cache, if there is one.
+     */
+    private async loadLeafData(bufferedLoader: BufferedDataLoader, leafNode: RPLeafNode,
+        signal?: AbortSignal): Promise<ArrayBuffer> {
+        const shared = this.getCachedLeafData(leafNode);
+        const fetch = () => this.fetchLeafData(bufferedLoader, leafNode);
+        return shared !== undefined ? this.waitForSharedLeafData(shared, signal, fetch) : fetch();
+    }
+
+    /**
+     * Loads and uncompresses the data block for a leaf node, adding the load to the block cache so other reads share it.
+     */
+    private fetchLeafData(dataLoader: DataLoader | BufferedDataLoader, leafNode: RPLeafNode): Promise<ArrayBuffer> {
+        const loading = dataLoader.load(leafNode.dataOffset, leafNode.dataSize)
+            .then((data) => this.uncompressLeafData(new Uint8Array(data)));
+        this.cacheLeafData(leafNode, loading);
+        return loading;
+    }
+
+    /**
+     * Waits for a block from the block cache, which may still be loading for another read. That read's loader
+     * fails if the read is cancelled, so if the load fails the block is loaded again with this read's loader.
+     *
+     * @param shared The cached block, or its pending load.
+     * @param signal This read's AbortSignal. Stops waiting as soon as it's aborted.
+     * @param reload Loads the block with this read's loader.
+     */
+    private async waitForSharedLeafData(shared: Promise<ArrayBuffer>, signal: AbortSignal | undefined,
+        reload: () => Promise<ArrayBuffer>): Promise<ArrayBuffer> {
+        try {
+            return await raceAbortSignal(shared, signal);
+        } catch (e) {
+            throwIfAborted(signal);
+            return reload();
+        }
+    }
+
+    /**
+     * Loads the data blocks for many leaf nodes. Blocks that aren't cached yet are grouped into ranges of the file,
+     * joining blocks up to coalesceGap bytes apart, and the ranges are fetched concurrently. Blocks are added to
+     * the block cache before they're fetched, so other reads of them wait for this fetch instead of starting their own.
+     * 
+     * @param dataLoader Data loader used to load the blocks.
+     * @param leafNodes Leaf nodes to load data for.
+     * @param [signal] Optional AbortSignal to cancel the read
+     * @returns The leaf nodes, without duplicates and in the given order, with their uncompressed data.
+     */
+    private async loadLeafDataForNodes(dataLoader: DataLoader, leafNodes: Array<RPLeafNode>,
+        signal?: AbortSignal): Promise<Array<{ leafNode: RPLeafNode, data: ArrayBuffer }>> {
+        const leafData = new Map<number, { leafNode: RPLeafNode, data: Promise<ArrayBuffer> }>();
+        const missing: Array<RPLeafNode> = [];
+        const pending = new Map<number, { resolve: (data: ArrayBuffer) => void, reject: (error: Error) => void }>();
         for (const leafNode of leafNodes) {
-            let leafData = new Uint8Array(await bufferedLoader.load(leafNode.dataOffset, leafNode.dataSize));
-            if (header.common!.uncompressBuffSize > 0) {
-                leafData = inflate(leafData);
+            if (leafData.has(leafNode.dataOffset)) continue;
+            const shared = this.getCachedLeafData(leafNode);
+            let data: Promise<ArrayBuffer>;
+            if (shared !== undefined) {
+                data = this.waitForSharedLeafData(shared, signal, () => this.fetchLeafData(dataLoader, leafNode));
+            } else {
+                missing.push(leafNode);
+                data = new Promise<ArrayBuffer>((resolve, reject) => pending.set(leafNode.dataOffset, { resolve, reject }));
+                this.cacheLeafData(leafNode, data);
             }
+            leafData.set(leafNode.dataOffset, { leafNode, data });
+        }
+
+        // Wait for the blocks shared with other reads alongside the fetches, so failures of either are always handled.
+        const [, loaded] = await Promise.all([
+            mapConcurrently(mergeLeafNodes(missing, this.coalesceGap), this.maxConcurrentFetches, async (blockRange) => {
+                const rangeData = await dataLoader.load(blockRange.offset, blockRange.size);
+                for (const leafNode of blockRange.leafNodes) {
+                    const blockData = new Uint8Array(rangeData, leafNode.dataOffset - blockRange.offset, leafNode.dataSize);
+                    pending.get(leafNode.dataOffset)!.resolve(await this.uncompressLeafData(blockData));
+                }
+            }).catch((error) => {
+                // Fail the blocks that weren't loaded, rather than leaving them pending in the cache.
+                pending.forEach(({ reject }) => reject(error));
+            }),
+            Promise.all(Array.from(leafData.values()).map(async ({ leafNode, data }) => ({ leafNode, data: await data })))
+        ]);
+        return loaded;
+    }
+
+    private getCachedLeafData(leafNode: RPLeafNode): Promise<ArrayBuffer> | undefined {
+        if (this.blockCache === undefined) return undefined;
+        return this.blockCache.get(leafNode.dataOffset, leafNode.dataSize);
+    }
 
-            let leafDecodedData = decodeFunction(leafData.buffer as ArrayBuffer, startChromIndex, startBase, endChromIndex, endBase, header.chromTree.idToChrom);
-            loadFunction(leafDecodedData);
+    private cacheLeafData(leafNode: RPLeafNode, data: Promise<ArrayBuffer>) {
+        if (this.blockCache !== undefined) this.blockCache.set(leafNode.dataOffset, leafNode.dataSize, data);
+    }
+
+    /**
+     * Uncompresses a leaf node's data block if the file is compressed.
+     * The returned data never shares memory with the given data.
+     */
+    private async uncompressLeafData(data: Uint8Array): Promise<ArrayBuffer> {
+        const header = await this.getHeader();
+        const leafData = header.common!.uncompressBuffSize > 0 ? inflate(data) : data.slice();
+        return leafData.buffer as ArrayBuffer;
+    }
+
+    /**
+     * Method containing the shared functionality for reading data for many regions at once from BigWig and BigBed files.
+     * Leaf nodes for all regions are found in a single pass over the R+ tree. Their data blocks are then loaded
+     * together and decoded once for each region they overlap.
+     * 
+     * @param regions Regions to read data for
+     * @param treeOffset Location of the R+ tree that stores the data we're interested.
+     * @param decodeFunction 
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    private async readDataForRegions<T>(regions: Array<GenomicRegion>, treeOffset: number,
+        decodeFunction: DecodeFunction<T>, signal?: AbortSignal): Promise<Array<Array<T>>> {
+        const header = await this.getHeader(signal);
+        if (undefined == header.chromTree) {
+            throw new FileFormatError("No chromosome tree found in file header.");
         }
+        const chromTree = header.chromTree;
+        const chromRegions = regions.map((region) => ({
+            chromIndex: this.getChromIndex(chromTree, region.chr),
+            start: region.start,
+            end: region.end
+        }));
+        const data: Array<Array<T>> = regions.map(() => []);
+        if (regions.length === 0) return data;
+
+        const dataLoader = withAbortSignal(this.dataLoader, signal);
+        const bufferedLoader = new BufferedDataLoader(dataLoader, this.bufferSize);
+        const overlapsRegion = (node: RPLeafNode, region: { chromIndex: number, start: number, end: number }) =>
+            rangeOverlaps(node, region.chromIndex, region.start, region.chromIndex, region.end);
+        const leafNodes: Array<RPLeafNode> = await this.loadLeafNodes(bufferedLoader, treeOffset,
+            (node) => chromRegions.some((region) => overlapsRegion(node, region)));
+
+        for (const { leafNode, data: leafData } of await this.loadLeafDataForNodes(dataLoader, leafNodes, signal)) {
+            chromRegions.forEach((region, i) => {
+                if (!overlapsRegion(leafNode, region)) return;
+                data[i].push(...decodeFunction(leafData, region.chromIndex, region.start,
+                    region.chromIndex, region.end, chromTree.idToChrom));
+            });
+        }
+        return data;
     }
 
+    /**
+     * Method containing all the shared functionality for reading BigWig and BigBed files.
+     * 
+     * @param startChrom Starting chromosome
+     * @param startBase Starting base pair
+     * @param endChrom Ending chromosome
+     * @param endBase Ending base pair
+     * @param treeOffset Location of the R+ tree that stores the data we're interested.
+     * @param decodeFunction 
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
     private async readData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number,
-        treeOffset: number, decodeFunction: DecodeFunction<T>): Promise<Array<T>> {
+        treeOffset: number, decodeFunction: DecodeFunction<T>, signal?: AbortSignal): Promise<Array<T>> {
+        const [startChromIndex, endChromIndex] = await this.getChromIndices(startChrom, endChrom, signal);
+        const chromDict = (await this.getHeader(signal)).chromTree!.idToChrom;
+
+        // Load the data for all leaf nodes in range at once, then decode it in order
         const data: Array<T> = [];
-        const load: LoadFunction<T> = (d: T[]) => data.push(...d);
-        await this.loadData(startChrom, startBase, endChrom, endBase, treeOffset, false, decodeFunction, load);
+        for (const leafData of await this.readDataBlocks(startChromIndex, startBase, endChromIndex, endBase, treeOffset, signal)) {
+            data.push(...decodeFunction(leafData, startChromIndex, startBase, endChromIndex, endBase, chromDict));
+        }
         return data;
     }
 
+    /**
+     * Loads the uncompressed data blocks for all leaf nodes within the given chr / base bounds, in genomic order.
+     * 
+     * @param startChromIndex Starting chromosome index
+     * @param startBase Starting base pair
+     * @param endChromIndex Ending chromosome index
+     * @param endBase Ending base pair
+     * @param treeOffset Location of the R+ tree that stores the data we're interested.
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    private async readDataBlocks(startChromIndex: number, startBase: number, endChromIndex: number, endBase: number,
+        treeOffset: number, signal?: AbortSignal): Promise<Array<ArrayBuffer>> {
+        const dataLoader = withAbortSignal(this.dataLoader, signal);
+        const bufferedLoader = new BufferedDataLoader(dataLoader, this.bufferSize);
+        const leafNodes: Array<RPLeafNode> = await this.loadLeafNodes(bufferedLoader, treeOffset,
+            (node) => rangeOverlaps(node, startChromIndex, startBase, endChromIndex, endBase));
+        return (await this.loadLeafDataForNodes(dataLoader, leafNodes, signal)).map((block) => block.data);
+    }
+
+    /**
+     * Method containing all the shared functionality for iterating over BigWig and BigBed files.
+     * Nothing is loaded until the first value is requested. After that, the R+ tree is loaded, then each 
+     * data block only once the values before it have all been used.
+     * 
+     * @param startChrom Starting chromosome
+     * @param startBase Starting base pair
+     * @param endChrom Ending chromosome
+     * @param endBase Ending base pair
+     * @param treeOffset Location of the R+ tree that stores the data we're interested.
+     * @param decodeFunction 
+     * @param [signal] Optional AbortSignal to cancel the read
+     * @param [limit] Stop after this many values, without loading any more blocks.
+     */
+    private async *iterateData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number,
+        treeOffset: number, decodeFunction: DecodeFunction<T>, signal?: AbortSignal, limit?: number): AsyncIterableIterator<T> {
+        const [startChromIndex, endChromIndex] = await this.getChromIndices(startChrom, endChrom, signal);
+        const chromDict = (await this.getHeader(signal)).chromTree!.idToChrom;
+
+        const bufferedLoader = new BufferedDataLoader(withAbortSignal(this.dataLoader, signal), this.bufferSize);
+        const leafNodes: Array<RPLeafNode> = await this.loadLeafNodes(bufferedLoader, treeOffset,
+            (node) => rangeOverlaps(node, startChromIndex, startBase, endChromIndex, endBase));
+        let remaining = limit !== undefined ? limit : Infinity;
+        for (const leafNode of leafNodes) {
+            if (remaining <= 0) return;
+            const leafData = await this.loadLeafData(bufferedLoader, leafNode, signal);
+            const data = decodeFunction(leafData, startChromIndex, startBase, endChromIndex, endBase, chromDict);
+            remaining -= data.length;
+            yield* remaining < 0 ? data.slice(0, data.length + remaining) : data;
+        }
+    }
+
+    /**
+     * Method containing all the shared functionality for streaming BigWig and BigBed files.
+     * The stream is returned right away. The R+ tree and data blocks are only loaded as the stream is read,
+     * one block at a time, and loading pauses whenever the stream's buffer is full. Destroying the stream
+     * stops any further loading.
+     * 
+     * @param startChrom Starting chromosome
+     * @param startBase Starting base pair
+     * @param endChrom Ending chromosome
+     * @param endBase Ending base pair
+     * @param treeOffset Location of the R+ tree that stores the data we're interested.
+     * @param decodeFunction 
+     * @param [signal] Optional AbortSignal to cancel the read
+     * @param [limit] End the stream after this many values, without loading any more blocks.
+     */
     private async streamData<T>(startChrom: string, startBase: number, endChrom: string, endBase: number,
-        treeOffset: number, decodeFunction: DecodeFunction<T>): Promise<Readable> {
-        const stream = new Readable({ objectMode: true, read() { } });
-        const load: LoadFunction<T> = (d: T[]) => {
-            d.forEach((el) => stream.push(el));
+        treeOffset: number, decodeFunction: DecodeFunction<T>, signal?: AbortSignal, limit?: number): Promise<Readable> {
+        const [startChromIndex, endChromIndex] = await this.getChromIndices(startChrom, endChrom, signal);
+        const chromDict = (await this.getHeader(signal)).chromTree!.idToChrom;
+
+        throwIfAborted(signal);
+        const bufferedLoader = new BufferedDataLoader(withAbortSignal(this.dataLoader, signal), this.bufferSize, true);
+        let leafNodes: Array<RPLeafNode> | undefined;
+        let nextLeafNode = 0;
+        let remaining = limit !== undefined ? limit : Infinity;
+        let loading = false;
+        let destroyed = false;
+
+        // Loads blocks until the stream's buffer is full or all data has been pushed.
+        const loadMore = async () => {
+            if (undefined === leafNodes) {
+                leafNodes = await this.loadLeafNodes(bufferedLoader, treeOffset,
+                    (node) => rangeOverlaps(node, startChromIndex, startBase, endChromIndex, endBase));
+            }
+            while (!destroyed) {
+                if (nextLeafNode >= leafNodes.length || remaining <= 0) {
+                    stream.push(null);
+                    return;
+                }
+                const leafData = await this.loadLeafData(bufferedLoader, leafNodes[nextLeafNode++], signal);
+                if (destroyed) return;
+                let wantsMore = true;
+                for (const d of decodeFunction(leafData, startChromIndex, startBase, endChromIndex, endBase, chromDict)) {
+                    if (remaining-- <= 0) break;
+                    wantsMore = stream.push(d);
+                }
+                if (!wantsMore) {
+                    // Set before returning, so a read() right after the push isn't ignored.
+                    loading = false;
+                    return;
+                }
+            }
         };
-        await this.loadData(startChrom, startBase, endChrom, endBase, treeOffset, true, decodeFunction, load);
-        stream.push(null);
+
+        const stream = new Readable({
+            objectMode: true,
+            read() {
+                if (loading) return;
+                loading = true;
+                loadMore().then(() => loading = false, (error) => {
+                    if (!destroyed) stream.destroy(error);
+                });
+            },
+            destroy(error, callback) {
+                destroyed = true;
+                bufferedLoader.destroy();
+                if (signal !== undefined) signal.removeEventListener("abort", onAbort);
+                callback(error);
+            }
+        });
+        const onAbort = () => stream.destroy(new AbortError());
+        if (signal !== undefined) signal.addEventListener("abort", onAbort);
         return stream;
     }
 }
 
 
 /**
- * Recursively load a list of R+ tree leaf nodes for the given node (by file offset) within given chr / base bounds.
+ * Recursively load a list of R+ tree leaf nodes for the given node (by file offset) that pass the given filter.
+ * Child nodes are only loaded if their bounds pass the filter.
  * 
  * @param bufferedLoader Buffered data loader used to load the node data.
  * @param rpNodeOffset Offset for the start of the R+ tree node
- * @param startChromIndex starting chromosome index used for filtering
- * @param startBase starting base used for filtering
- * @param endChromIndex ending chromosome index used for filtering
- * @param startBase ending base used for filtering
+ * @param filter returns whether a node with the given chr / base bounds should be included
+ * @param nodeCache cache of parsed nodes, by file offset
  * @returns List of simple representations of leaf nodes for the given node offset.
  */
-async function loadLeafNodesForRPNode(bufferedLoader: BufferedDataLoader, littleEndian: boolean, rpNodeOffset: number, startChromIndex: number,
-    startBase: number, endChromIndex: number, endBase: number): Promise<Array<RPLeafNode>> {
+async function loadLeafNodesForRPNode(bufferedLoader: BufferedDataLoader, littleEndian: boolean, rpNodeOffset: number,
+    filter: (node: RPLeafNode) => boolean, nodeCache: LruCache<number, RPTreeNode>): Promise<Array<RPLeafNode>> {
+    const rpNode = await loadRPNode(bufferedLoader, littleEndian, rpNodeOffset, nodeCache);
+    let leafNodes: Array<RPLeafNode> = [];
+    for (const node of rpNode.items) {
+        if (!filter(node)) continue;
+        if (rpNode.isLeaf) {
+            leafNodes.push(node);
+        } else {
+            // For child items, the offset is the child node's offset rather than a data offset.
+            leafNodes.push(... await loadLeafNodesForRPNode(bufferedLoader, littleEndian, node.dataOffset, filter, nodeCache));
+        }
+    }
+
+    return leafNodes;
+}
+
+/**
+ * Loads and parses a single R+ tree node, or gets it from the node cache if it was loaded before.
+ */
+async function loadRPNode(bufferedLoader: BufferedDataLoader, littleEndian: boolean, rpNodeOffset: number,
+    nodeCache: LruCache<number, RPTreeNode>): Promise<RPTreeNode> {
+    const cached = nodeCache.get(rpNodeOffset);
+    if (cached !== undefined) return cached;
+
     const nodeHeaderData: ArrayBuffer = await bufferedLoader.load(rpNodeOffset, 4);
     const nodeHeaderParser = new BinaryParser(nodeHeaderData, littleEndian);
     const isLeaf = 1 === nodeHeaderParser.getByte();
@@ -336,43 +1342,73 @@ async function loadLeafNodesForRPNode(bufferedLoader: BufferedDataLoader, little
     const bytesRequired = count * (isLeaf ? RPTREE_NODE_LEAF_ITEM_SIZE : RPTREE_NODE_CHILD_ITEM_SIZE);
     const nodeData: ArrayBuffer = await bufferedLoader.load(nodeDataOffset, bytesRequired);
 
-    let leafNodes: Array<RPLeafNode> = [];
+    const items: Array<RPLeafNode> = [];
     const nodeDataParser = new BinaryParser(nodeData, littleEndian);
     for (let i = 0; i < count; i++) {
-        const nodeStartChr = nodeDataParser.getInt();
-        const nodeStartBase = nodeDataParser.getInt();
-        const nodeEndChr = nodeDataParser.getInt();
-        const nodeEndBase = nodeDataParser.getInt();
-        // If this node overlaps with the chr / base range provided
-        const overlaps: boolean = ((endChromIndex > nodeStartChr) || (endChromIndex == nodeStartChr && endBase >= nodeStartBase)) &&
-            ((startChromIndex < nodeEndChr) || (startChromIndex == nodeEndChr && startBase <= nodeEndBase));
-        if (isLeaf) {
-            const leafNode: RPLeafNode = {
-                startChrom: nodeStartChr,
-                startBase: nodeStartBase,
-                endChrom: nodeEndChr,
-                endBase: nodeEndBase,
-                dataOffset: nodeDataParser.getLong(),
-                dataSize: nodeDataParser.getLong()
-            };
-            if (overlaps) {
-                leafNodes.push(leafNode);
-            }
+        items.push({
+            startChrom: nodeDataParser.getInt(),
+            startBase: nodeDataParser.getInt(),
+            endChrom: nodeDataParser.getInt(),
+            endBase: nodeDataParser.getInt(),
+            dataOffset: nodeDataParser.getLong(),
+            dataSize: isLeaf ? nodeDataParser.getLong() : 0
+        });
+    }
+
+    const rpNode: RPTreeNode = { isLeaf, items };
+    nodeCache.set(rpNodeOffset, rpNode);
+    return rpNode;
+}
+
+/**
+ * Checks whether an R+ tree node's bounds overlap with the given chr / base range.
+ */
+function rangeOverlaps(node: RPLeafNode, startChromIndex: number, startBase: number, endChromIndex: number,
+    endBase: number): boolean {
+    return ((endChromIndex > node.startChrom) || (endChromIndex == node.startChrom && endBase >= node.startBase)) &&
+        ((startChromIndex < node.endChrom) || (startChromIndex == node.endChrom && startBase <= node.endBase));
+}
+
+/**
+ * Merges leaf nodes whose data blocks are close to each other in the file into single ranges to load.
+ * Leaf nodes pointing to the same block are only included once.
+ * 
+ * @param leafNodes leaf nodes to merge.
+ * @param maxGap largest number of bytes between two blocks in the same range.
+ * @returns ranges of the file to load, with the leaf nodes in each, ordered by file offset.
+ */
+function mergeLeafNodes(leafNodes: Array<RPLeafNode>,
+    maxGap: number): Array<{ offset: number, size: number, leafNodes: Array<RPLeafNode> }> {
+    const sorted = [...leafNodes].sort((a, b) => a.dataOffset - b.dataOffset);
+    const ranges: Array<{ offset: number, size: number, leafNodes: Array<RPLeafNode> }> = [];
+    for (const leafNode of sorted) {
+        const last = ranges[ranges.length - 1];
+        if (last !== undefined && last.leafNodes[last.leafNodes.length - 1].dataOffset === leafNode.dataOffset) {
+            continue;
+        }
+        if (last !== undefined && leafNode.dataOffset - (last.offset + last.size) <= maxGap) {
+            last.size = Math.max(last.size, leafNode.dataOffset + leafNode.dataSize - last.offset);
+            last.leafNodes.push(leafNode);
         } else {
-            const childOffset = nodeDataParser.getLong();
-            if (overlaps) {
-                leafNodes.push(... await loadLeafNodesForRPNode(bufferedLoader, littleEndian, childOffset, startChromIndex, startBase, endChromIndex, endBase));
-            }
+            ranges.push({ offset: leafNode.dataOffset, size: leafNode.dataSize, leafNodes: [leafNode] });
         }
     }
+    return ranges;
+}
 
-    return leafNodes;
+/**
+ * Gets the decode function and limit for reading bed data with either a parse function or read options.
+ */
+function bedDecodeOptions<T>(restParser?: ParseFunction<T> | BigBedReadOptions<T>): { decodeFunction: DecodeFunction<T>, limit?: number } {
+    const options: BigBedReadOptions<T> = typeof restParser === "function" ? { restParser } : restParser || {};
+    if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit < 0)) {
+        throw new RangeError(`limit must be a non-negative integer, got ${options.limit}.`);
+    }
+    return { decodeFunction: decodeBedData(options.restParser || parseBigBed as any, options.filter), limit: options.limit };
 }
 
 type DecodeFunction<T> = (data: ArrayBuffer, startChromIndex: number, startBase: number, endChromIndex: number,
     endBase: number, chromDict: Array<string>) => Array<T>;
-
-type LoadFunction<T> = (data: Array<T>) => void;
  
 /**
  * Extract useful data from sections of raw big binary bed data
@@ -438,6 +1474,7 @@ export function parseBigBed(chrom: string, startBase: number, endBase: number, r
  * Extract useful data from sections of raw big binary bed data
  * @template T
  * @params restParser Parser for reading big bed data
+ * @params [filter] Called with the raw fields of each record in range. Records it returns false for are skipped before parsing.
  * @returns
  *  The big bed Decode function
  *  @template T
@@ -450,7 +1487,7 @@ export function parseBigBed(chrom: string, startBase: number, endBase: number, r
  *  @param [restParser] Parse for getting data
  * 
 */
-const decodeBedData = <T>(restParser: ParseFunction<T>) => (data: ArrayBuffer, filterStartChromIndex: number, filterStartBase: number, filterEndChromIndex: number,
+const decodeBedData = <T>(restParser: ParseFunction<T>, filter?: BigBedFilter) => (data: ArrayBuffer, filterStartChromIndex: number, filterStartBase: number, filterEndChromIndex: number,
     filterEndBase: number, chromDict: Array<string>): Array<T> => {
     const decodedData: Array<T> = [];
     const binaryParser = new BinaryParser(data);
@@ -469,6 +1506,9 @@ const decodeBedData = <T>(restParser: ParseFunction<T>) => (data: ArrayBuffer, f
             break;
         }
 
+        if (filter !== undefined && !filter(chrom, startBase, endBase, rest)) {
+            continue;
+        }
         const entry: T = restParser(chrom, startBase, endBase, rest);
         decodedData.push(entry);
     }
@@ -476,6 +1516,66 @@ const decodeBedData = <T>(restParser: ParseFunction<T>) => (data: ArrayBuffer, f
     return decodedData;
 }
 
+/**
+ * Calls the given function with the chromosome index, start and end of each record within the filter bounds in a
+ * section of raw big binary bed data. The rest of each record is skipped without being decoded.
+ * 
+ * @param data Raw bed data
+ * @param filterStartChromIndex starting chromosome index used for filtering
+ * @param filterStartBase starting base used for filtering
+ * @param filterEndChromIndex ending chromosome index used for filtering
+ * @param filterEndBase ending base used for filtering
+ * @param fn called with the chromosome index, start and end of each record.
+ */
+function forEachBedRecord(data: ArrayBuffer, filterStartChromIndex: number, filterStartBase: number, filterEndChromIndex: number,
+    filterEndBase: number, fn: (chromIndex: number, startBase: number, endBase: number) => void) {
+    const binaryParser = new BinaryParser(data);
+    const minSize = 3 * 4 + 1;    // Minimum # of bytes required for a bed record
+
+    while (binaryParser.remLength() >= minSize) {
+        const chromIndex = binaryParser.getInt();
+        const startBase = binaryParser.getInt();
+        const endBase = binaryParser.getInt();
+        binaryParser.skipString();
+
+        if (chromIndex < filterStartChromIndex || (chromIndex === filterStartChromIndex && endBase < filterStartBase)) {
+            continue;
+        } else if (chromIndex > filterEndChromIndex || (chromIndex === filterEndChromIndex && startBase >= filterEndBase)) {
+            break;
+        }
+        fn(chromIndex, startBase, endBase);
+    }
+}
+
+/**
+ * Extract bed data with the given value for one of its fields from a section of raw big binary bed data.
+ * 
+ * @param restParser Parser for reading big bed data
+ * @param fieldId index of the field to match, where 0 is chrom.
+ * @param value field value to match.
+ * @returns The decode function, which takes the raw bed data and the file's chromosome dictionary.
+ */
+const decodeBedDataByField = <T>(restParser: ParseFunction<T>, fieldId: number, value: string) =>
+    (data: ArrayBuffer, chromDict: Array<string>): Array<T> => {
+    const decodedData: Array<T> = [];
+    const binaryParser = new BinaryParser(data);
+    const minSize = 3 * 4 + 1;    // Minimum # of bytes required for a bed record
+
+    while (binaryParser.remLength() >= minSize) {
+        const chromIndex = binaryParser.getInt();
+        const startBase = binaryParser.getInt();
+        const endBase = binaryParser.getInt();
+        const rest = binaryParser.getString();
+
+        // chrom, start and end are not part of rest.
+        if (rest.split("\t")[fieldId - 3] === value) {
+            decodedData.push(restParser(chromDict[chromIndex], startBase, endBase, rest));
+        }
+    }
+
+    return decodedData;
+}
+
 /**
  * Extract useful data from sections of raw big binary unzoomed wig data
  * 
@@ -489,10 +1589,65 @@ const decodeBedData = <T>(restParser: ParseFunction<T>) => (data: ArrayBuffer, f
 function decodeWigData(data: ArrayBuffer, filterStartChromIndex: number, filterStartBase: number, filterEndChromIndex: number,
     filterEndBase: number, chromDict: Array<string>): Array<BigWigData> {
     const decodedData: Array<BigWigData> = [];
+    forEachWigItem(data, filterStartChromIndex, filterStartBase, filterEndChromIndex, filterEndBase,
+        (chromIndex, startBase, endBase, value) => decodedData.push({
+            chr: chromDict[chromIndex],
+            start: startBase,
+            end: endBase,
+            value: value
+        }));
+    return decodedData;
+}
+
+/**
+ * Extract the section from a block of raw big binary unzoomed wig data, keeping its encoding.
+ * Returns no sections if none of its items are within the filter bounds.
+ * 
+ * @param data Raw unzoomed wig data
+ * @param filterStartChromIndex starting chromosome index used for filtering
+ * @param filterStartBase starting base used for filtering
+ * @param filterEndChromIndex ending chromosome index used for filtering
+ * @param filterEndBase ending base used for filtering
+ * @param chromDict dictionary of indices used by the file to chromosome names, conveniently stored as an array.
+ */
+function decodeWigSections(data: ArrayBuffer, filterStartChromIndex: number, filterStartBase: number, filterEndChromIndex: number,
+    filterEndBase: number, chromDict: Array<string>): Array<BigWigSection> {
+    const binaryParser = new BinaryParser(data);
+    const chromIndex = binaryParser.getInt();
+    binaryParser.position += 8; // Skip section start and end, which may lie outside the filter bounds
+    const step = binaryParser.getInt();
+    const span = binaryParser.getInt();
+    const type = binaryParser.getByte();
+
+    const sectionData = decodeWigData(data, filterStartChromIndex, filterStartBase, filterEndChromIndex, filterEndBase, chromDict);
+    if (sectionData.length === 0) return [];
+    return [{
+        chr: chromDict[chromIndex],
+        start: sectionData[0].start,
+        end: sectionData[sectionData.length - 1].end,
+        type: 1 === type ? "bedGraph" : 2 === type ? "variableStep" : "fixedStep",
+        step,
+        span,
+        data: sectionData
+    }];
+}
+
+/**
+ * Calls the given function for each item within the filter bounds in a section of raw unzoomed wig data.
+ * Handles bed graph, variable step and fixed step sections.
+ * 
+ * @param data Raw unzoomed wig data
+ * @param filterStartChromIndex starting chromosome index used for filtering
+ * @param filterStartBase starting base used for filtering
+ * @param filterEndChromIndex ending chromosome index used for filtering
+ * @param filterEndBase ending base used for filtering
+ * @param fn called with the chromosome index, start, end and value of each item.
+ */
+function forEachWigItem(data: ArrayBuffer, filterStartChromIndex: number, filterStartBase: number, filterEndChromIndex: number,
+    filterEndBase: number, fn: (chromIndex: number, startBase: number, endBase: number, value: number) => void) {
     const binaryParser = new BinaryParser(data);
 
     const chromIndex = binaryParser.getInt();
-    const chrom = chromDict[chromIndex];
     let startBase = binaryParser.getInt();
     let endBase = binaryParser.getInt();
     const itemStep = binaryParser.getInt();
@@ -502,7 +1657,7 @@ function decodeWigData(data: ArrayBuffer, filterStartChromIndex: number, filterS
     let itemCount = binaryParser.getUShort();
 
     if (chromIndex < filterStartChromIndex || chromIndex > filterEndChromIndex) {
-        return decodedData;
+        return;
     }
 
     while (itemCount-- > 0) {
@@ -526,12 +1681,7 @@ function decodeWigData(data: ArrayBuffer, filterStartChromIndex: number, filterS
         if (chromIndex > filterEndChromIndex || (chromIndex === filterEndChromIndex && startBase >= filterEndBase)) {
             break; // past the end of the range; exit
         } else if (!(chromIndex < filterStartChromIndex || (chromIndex === filterStartChromIndex && endBase < filterStartBase))) {
-            decodedData.push({
-                chr: chrom,
-                start: startBase,
-                end: endBase,
-                value: value
-            }); // this is within the range (i.e. not before the first requested base); add this datapoint
+            fn(chromIndex, startBase, endBase, value); // this is within the range (i.e. not before the first requested base)
         }
 
         if (1 !== type && 2 !== type) {
@@ -540,7 +1690,6 @@ function decodeWigData(data: ArrayBuffer, filterStartChromIndex: number, filterS
             startBase += itemStep;
         }
     }
-    return decodedData;
 }
 
 /**
@@ -559,7 +1708,7 @@ function decodeZoomData(data: ArrayBuffer, filterStartChromIndex: number, filter
     const binaryParser = new BinaryParser(data);
 
     const minSize = 8 * 4;   // Minimum # of bytes required for a zoom record
-    while (binaryParser.remLength() > minSize) {
+    while (binaryParser.remLength() >= minSize) {
         const chromIndex = binaryParser.getInt();
         const decodedZoomData: BigZoomData = {
             chr: chromDict[chromIndex],
@@ -0,0 +1,263 @@
+import { ZoomLevelHeader } from "./BigWigHeaderReader";
+
+/**
+ * Summary statistics that can be requested for each bin of a BigWig summary.
+ * "coverage" is the fraction of bases in the bin that have data.
+ */
+export type SummaryStat = "mean" | "min" | "max" | "coverage" | "std";
+
+export interface BigWigSummaryOptions {
+    // Statistic to return for each bin. Defaults to "mean".
+    stat?: SummaryStat;
+}
+
+/**
+ * How values falling in the same element of a dense array are combined.
+ * "mean" and "sum" weight each value by the number of bases it covers in the element.
+ */
+export type ArrayReducer = "mean" | "sum" | "min" | "max";
+
+export interface BigWigArrayOptions {
+    // Number of bases in each element of the array. Defaults to 1.
+    binSize?: number;
+    // Value for elements with no data. Defaults to NaN.
+    fill?: number;
+    // How values in the same element are combined. Defaults to "mean".
+    reducer?: ArrayReducer;
+}
+
+/**
+ * Summary statistics for all data over a single region.
+ */
+export interface BigWigRegionStats {
+    chr: string;
+    start: number;
+    end: number;
+    // Number of bases in the region that have data
+    basesCovered: number;
+    // Sum of values over covered bases
+    sum: number;
+    // Mean over covered bases
+    mean: number;
+    min: number;
+    max: number;
+    std: number;
+    // Fraction of bases in the region that have data
+    coverage: number;
+}
+
+/**
+ * Running totals for data summarized over a range. Mirrors the fields of zoom level records.
+ */
+export interface SummaryData {
+    validCount: number;
+    minVal: number;
+    maxVal: number;
+    sumData: number;
+    sumSquares: number;
+}
+
+export function emptySummary(): SummaryData {
+    return { validCount: 0, minVal: Infinity, maxVal: -Infinity, sumData: 0, sumSquares: 0 };
+}
+
+/**
+ * Picks the coarsest zoom level whose reduction level does not exceed the desired reduction.
+ *
+ * @param zoomLevelHeaders the file's zoom level headers.
+ * @param desiredReduction the largest number of bases a zoom record may summarize.
+ * @returns the zoom level header, or undefined if no zoom level is fine enough.
+ */
+export function bestZoomLevel(zoomLevelHeaders: Array<ZoomLevelHeader> | undefined,
+    desiredReduction: number): ZoomLevelHeader | undefined {
+    let best: ZoomLevelHeader | undefined = undefined;
+    for (const zoomLevelHeader of zoomLevelHeaders || []) {
+        if (zoomLevelHeader.reductionLevel <= desiredReduction &&
+            (best === undefined || zoomLevelHeader.reductionLevel > best.reductionLevel)) {
+            best = zoomLevelHeader;
+        }
+    }
+    return best;
+}
+
+/**
+ * Adds a single value spanning the given bases to a summary, weighted by the bases overlapping the range.
+ *
+ * @param summary the summary to add to.
+ * @param dataStart first base the value covers.
+ * @param dataEnd base after the last base the value covers.
+ * @param value the value.
+ * @param start start of the range being summarized.
+ * @param end end of the range being summarized.
+ */
+export function addValueToSummary(summary: SummaryData, dataStart: number, dataEnd: number, value: number,
+    start: number, end: number) {
+    const overlap = Math.min(dataEnd, end) - Math.max(dataStart, start);
+    if (overlap <= 0) return;
+    summary.validCount += overlap;
+    summary.minVal = Math.min(summary.minVal, value);
+    summary.maxVal = Math.max(summary.maxVal, value);
+    summary.sumData += value * overlap;
+    summary.sumSquares += value * value * overlap;
+}
+
+/**
+ * Adds a zoom level record to a summary. Records only partly overlapping the range are weighted by
+ * the fraction of their bases that overlap.
+ *
+ * @param summary the summary to add to.
+ * @param dataStart first base the record covers.
+ * @param dataEnd base after the last base the record covers.
+ * @param data the record's summary data.
+ * @param start start of the range being summarized.
+ * @param end end of the range being summarized.
+ */
+export function addSummaryToSummary(summary: SummaryData, dataStart: number, dataEnd: number, data: SummaryData,
+    start: number, end: number) {
+    const overlap = Math.min(dataEnd, end) - Math.max(dataStart, start);
+    if (overlap <= 0 || data.validCount <= 0) return;
+    const fraction = overlap / (dataEnd - dataStart);
+    summary.validCount += data.validCount * fraction;
+    summary.minVal = Math.min(summary.minVal, data.minVal);
+    summary.maxVal = Math.max(summary.maxVal, data.maxVal);
+    summary.sumData += data.sumData * fraction;
+    summary.sumSquares += data.sumSquares * fraction;
+}
+
+/**
+ * Calls the given function for each bin that a record between dataStart and dataEnd overlaps.
+ *
+ * @param start start of the binned range.
+ * @param end end of the binned range.
+ * @param nBins number of bins the range is split into.
+ * @param dataStart first base the record covers.
+ * @param dataEnd base after the last base the record covers.
+ * @param fn called with the index, start and end of each overlapping bin.
+ */
+export function forEachOverlappingBin(start: number, end: number, nBins: number, dataStart: number, dataEnd: number,
+    fn: (bin: number, binStart: number, binEnd: number) => void) {
+    const size = end - start;
+    let bin = Math.max(0, Math.floor((dataStart - start) * nBins / size));
+    for (; bin < nBins; bin++) {
+        const binStart = start + Math.floor(bin * size / nBins);
+        const binEnd = start + Math.floor((bin + 1) * size / nBins);
+        if (binStart >= dataEnd) break;
+        fn(bin, binStart, binEnd);
+    }
+}
+
+/**
+ * Calculates the given statistic from a summary. Returns NaN if the summary has no data.
+ *
+ * @param summary the summary.
+ * @param stat the statistic to calculate.
+ * @param size number of bases the summary covers, used for coverage.
+ */
+export function summaryStat(summary: SummaryData, stat: SummaryStat, size: number): number {
+    if (summary.validCount <= 0) return NaN;
+    switch (stat) {
+        case "min":
+            return summary.minVal;
+        case "max":
+            return summary.maxVal;
+        case "coverage":
+            return summary.validCount / size;
+        case "std":
+            return summaryStd(summary);
+        default:
+            return summary.sumData / summary.validCount;
+    }
+}
+
+/**
+ * Calculates the sample standard deviation from a summary's sums, the way UCSC tools do.
+ */
+export function summaryStd(summary: SummaryData): number {
+    const n = summary.validCount;
+    if (n <= 0) return NaN;
+    let variance = summary.sumSquares - summary.sumData * summary.sumData / n;
+    if (n > 1) variance /= n - 1;
+    return Math.sqrt(Math.max(0, variance));
+}
+
+/**
+ * Builds region statistics from the summary of all data over the region.
+ *
+ * @param chr the region's chromosome.
+ * @param start the region's start base.
+ * @param end the region's end base.
+ * @param summary the summary of all data over the region.
+ */
+export function toRegionStats(chr: string, start: number, end: number, summary: SummaryData): BigWigRegionStats {
+    return {
+        chr, start, end,
+        basesCovered: summary.validCount,
+        sum: summary.sumData,
+        mean: summaryStat(summary, "mean", end - start),
+        min: summaryStat(summary, "min", end - start),
+        max: summaryStat(summary, "max", end - start),
+        std: summaryStat(summary, "std", end - start),
+        coverage: summary.validCount / (end - start)
+    };
+}
+
+/**
+ * Builds a dense array of values for a range, with one element for each binSize bases.
+ * Values are accumulated in typed arrays as they are added, so no objects are created per value.
+ */
+export class DenseArrayBuilder {
+
+    private values: Float32Array;
+    private covered: Float64Array;
+    private sums?: Float64Array;
+
+    /**
+     * @param start first base of the range.
+     * @param end base after the last base of the range.
+     * @param binSize number of bases in each element.
+     * @param reducer how values in the same element are combined.
+     */
+    constructor(private start: number, private end: number, private binSize: number, private reducer: ArrayReducer) {
+        const length = Math.max(0, Math.ceil((end - start) / binSize));
+        this.values = new Float32Array(length);
+        this.covered = new Float64Array(length);
+        if (reducer === "mean" || reducer === "sum") this.sums = new Float64Array(length);
+    }
+
+    /**
+     * Adds a single value spanning the given bases. Bases outside the range are ignored.
+     */
+    add(dataStart: number, dataEnd: number, value: number) {
+        const start = Math.max(dataStart, this.start);
+        const end = Math.min(dataEnd, this.end);
+        if (start >= end) return;
+        const lastBin = Math.floor((end - 1 - this.start) / this.binSize);
+        for (let bin = Math.floor((start - this.start) / this.binSize); bin <= lastBin; bin++) {
+            const binStart = this.start + bin * this.binSize;
+            const overlap = Math.min(end, binStart + this.binSize) - Math.max(start, binStart);
+            if (this.sums !== undefined) {
+                this.sums[bin] += value * overlap;
+            } else if (this.covered[bin] === 0 || (this.reducer === "min" ? value < this.values[bin] : value > this.values[bin])) {
+                this.values[bin] = value;
+            }
+            this.covered[bin] += overlap;
+        }
+    }
+
+    /**
+     * Gets the finished array.
+     *
+     * @param fill value for elements with no data.
+     */
+    finish(fill: number): Float32Array {
+        for (let bin = 0; bin < this.values.length; bin++) {
+            if (this.covered[bin] === 0) {
+                this.values[bin] = fill;
+            } else if (this.sums !== undefined) {
+                this.values[bin] = this.reducer === "mean" ? this.sums[bin] / this.covered[bin] : this.sums[bin];
+            }
+        }
+        return this.values;
+    }
+
+}
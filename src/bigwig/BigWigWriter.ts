@@ -0,0 +1,150 @@
+import { BinaryWriter } from "../util/BinaryWriter";
+import { FileFormatError } from "../loader/DataLoader";
+import { BigWigData } from "./BigWigReader";
+import {
+    BigFileWriterOptions, ChromOrderTracker, TotalSummaryBuilder, ZoomLevelsBuilder, DataBlock, WriterChrom,
+    groupIntoBlocks, writeDataBlocks, writeChromTree, writeRPTree, writeZoomLevels, writeHeaders,
+    BBFILE_HEADER_SIZE, ZOOM_HEADER_SIZE, TOTAL_SUMMARY_SIZE, DEFAULT_BLOCK_SIZE, DEFAULT_ITEMS_PER_SLOT, MAX_ZOOM_LEVELS
+} from "./BigFileWriter";
+
+const BIGWIG_MAGIC = 0x888FFC26;
+const BIGWIG_VERSION = 4;
+const WIG_SECTION_HEADER_SIZE = 24;
+
+enum WigSectionType {
+    BedGraph = 1,
+    VarStep = 2,
+    FixedStep = 3
+}
+
+interface WigItem {
+    chrom: WriterChrom;
+    start: number;
+    end: number;
+    value: number;
+}
+
+/**
+ * Class for writing BigWig files from sorted wig data. The counterpart to BigWigReader.readBigWigData.
+ *
+ * Data is written in sections of up to itemsPerSlot items each. Each section is stored in the most compact
+ * format its data allows, fixed step, variable step or bed graph, like UCSC's wigToBigWig does.
+ */
+export class BigWigWriter {
+
+    /**
+     * @param chromSizes Sizes of all chromosomes that may appear in the data.
+     * @param options Options for the layout of the file.
+     */
+    constructor(private chromSizes: { [chrom: string]: number }, private options: BigFileWriterOptions = {}) { }
+
+    /**
+     * Writes a BigWig file.
+     *
+     * @param data Wig data, sorted by chromosome and start. Data for each chromosome must be together
+     *      and may not overlap. Node.js object mode Readable streams can be passed in directly.
+     * @returns The contents of the BigWig file.
+     */
+    async write(data: Iterable<BigWigData> | AsyncIterable<BigWigData>): Promise<ArrayBuffer> {
+        const itemsPerSlot = this.options.itemsPerSlot || DEFAULT_ITEMS_PER_SLOT;
+        const blockSize = this.options.blockSize || DEFAULT_BLOCK_SIZE;
+        const compress = this.options.compress !== false;
+        const nZoomLevels = this.options.zoomLevels !== undefined ? this.options.zoomLevels : MAX_ZOOM_LEVELS;
+
+        const chromTracker = new ChromOrderTracker(this.chromSizes);
+        const totalSummary = new TotalSummaryBuilder();
+        const zoomLevelsBuilder = new ZoomLevelsBuilder(this.chromSizes, nZoomLevels);
+        const items: Array<WigItem> = [];
+        let lastEnd = 0;
+        for await (const d of data) {
+            const chrom = chromTracker.next(d.chr, d.start, d.end);
+            if (items.length > 0 && items[items.length - 1].chrom === chrom && d.start < lastEnd) {
+                throw new FileFormatError(`Wig data may not overlap. ${d.chr}:${d.start} is before ${d.chr}:${lastEnd}.`);
+            }
+            lastEnd = d.end;
+            items.push({ chrom, start: d.start, end: d.end, value: d.value });
+            totalSummary.add(d.end - d.start, d.value);
+            zoomLevelsBuilder.add(chrom, d.start, d.end, d.value);
+        }
+        const zoomLevels = zoomLevelsBuilder.finish(items.length);
+
+        const writer = new BinaryWriter();
+        writer.position = BBFILE_HEADER_SIZE + zoomLevels.length * ZOOM_HEADER_SIZE;
+        const totalSummaryOffset = writer.position;
+        writer.putZeros(TOTAL_SUMMARY_SIZE);
+
+        const chromTreeOffset = writer.position;
+        writeChromTree(writer, chromTracker.allChroms(), blockSize);
+
+        const blocks = groupIntoBlocks(items, itemsPerSlot, (item) => item.chrom.id).map(encodeWigSection);
+        const fullDataOffset = writer.position;
+        writer.putLong(blocks.length);
+        const rpTreeItems = writeDataBlocks(writer, blocks, compress);
+
+        const fullIndexOffset = writer.position;
+        writeRPTree(writer, rpTreeItems, blockSize, fullIndexOffset);
+        const zoomLevelsWritten = writeZoomLevels(writer, zoomLevels, this.options);
+
+        const maxBlockSize = blocks.reduce((max, block) => Math.max(max, block.data.byteLength), zoomLevelsWritten.maxBlockSize);
+        writeHeaders(writer, BIGWIG_MAGIC, {
+            bwVersion: BIGWIG_VERSION,
+            nZoomLevels: zoomLevels.length,
+            chromTreeOffset,
+            fullDataOffset,
+            fullIndexOffset,
+            fieldCount: 0,
+            definedFieldCount: 0,
+            autoSqlOffset: 0,
+            totalSummaryOffset,
+            uncompressBuffSize: compress ? maxBlockSize : 0,
+            reserved: 0
+        }, zoomLevelsWritten.headers, totalSummary.summary);
+        return writer.getData();
+    }
+
+}
+
+/**
+ * Picks the most compact section type that can hold the given items.
+ */
+function wigSectionType(items: Array<WigItem>): WigSectionType {
+    const span = items[0].end - items[0].start;
+    if (items.some((item) => item.end - item.start !== span)) return WigSectionType.BedGraph;
+    if (items.length < 2) return WigSectionType.FixedStep;
+    const step = items[1].start - items[0].start;
+    for (let i = 1; i < items.length; i++) {
+        if (items[i].start - items[i - 1].start !== step) return WigSectionType.VarStep;
+    }
+    return WigSectionType.FixedStep;
+}
+
+/**
+ * Encodes a list of wig items for a single chromosome as an uncompressed BigWig data section.
+ */
+function encodeWigSection(items: Array<WigItem>): DataBlock {
+    const type = wigSectionType(items);
+    const span = items[0].end - items[0].start;
+    const step = items.length > 1 ? items[1].start - items[0].start : span;
+    const start = items[0].start;
+    const end = items.reduce((max, item) => Math.max(max, item.end), 0);
+
+    const writer = new BinaryWriter(WIG_SECTION_HEADER_SIZE + items.length * 12);
+    writer.putUInt(items[0].chrom.id);
+    writer.putUInt(start);
+    writer.putUInt(end);
+    writer.putUInt(type === WigSectionType.FixedStep ? step : 0);
+    writer.putUInt(type === WigSectionType.BedGraph ? 0 : span);
+    writer.putByte(type);
+    writer.putByte(0); // reserved
+    writer.putUShort(items.length);
+    for (const item of items) {
+        if (type !== WigSectionType.FixedStep) {
+            writer.putUInt(item.start);
+        }
+        if (type === WigSectionType.BedGraph) {
+            writer.putUInt(item.end);
+        }
+        writer.putFloat(item.value);
+    }
+    return { chromId: items[0].chrom.id, start, end, data: writer.getData() };
+}
@@ -0,0 +1,76 @@
+import { LruCache, CacheStats } from "../util/LruCache";
+
+const DEFAULT_BLOCK_CACHE_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Least recently used cache of uncompressed BigWig / BigBed data blocks, bounded by their total size.
+ *
+ * Blocks are keyed by their offset and size in the file, so one cache can be shared by any number of
+ * BigWigReaders for the same file, ie. the same URL. Never share a cache between readers for different files.
+ * Blocks are cached from the moment they start loading, so concurrent reads of the same block share one fetch.
+ */
+export class BlockCache {
+
+    private cache: LruCache<string, ArrayBuffer>;
+    private loading = new Map<string, Promise<ArrayBuffer>>();
+
+    /**
+     * @param maxBytes Total size of uncompressed blocks to keep. Defaults to 16MB.
+     */
+    constructor(maxBytes: number = DEFAULT_BLOCK_CACHE_SIZE) {
+        this.cache = new LruCache(maxBytes, (data: ArrayBuffer) => data.byteLength);
+    }
+
+    /**
+     * Gets an uncompressed block, which may still be loading, or undefined if it isn't cached.
+     *
+     * @param dataOffset Offset of the block in the file.
+     * @param dataSize Size of the block in the file, before uncompressing.
+     */
+    get(dataOffset: number, dataSize: number): Promise<ArrayBuffer> | undefined {
+        const key = blockKey(dataOffset, dataSize);
+        const loading = this.loading.get(key);
+        if (loading !== undefined) return loading;
+        const data = this.cache.get(key);
+        return data !== undefined ? Promise.resolve(data) : undefined;
+    }
+
+    /**
+     * Caches an uncompressed block as soon as it starts loading. The block is dropped if loading fails,
+     * so the next read of it tries again.
+     *
+     * @param dataOffset Offset of the block in the file.
+     * @param dataSize Size of the block in the file, before uncompressing.
+     * @param data The uncompressed block, or the pending load of it.
+     */
+    set(dataOffset: number, dataSize: number, data: ArrayBuffer | Promise<ArrayBuffer>) {
+        const key = blockKey(dataOffset, dataSize);
+        const loading = Promise.resolve(data);
+        this.loading.set(key, loading);
+        // Only the latest load of a block is kept, and loads from before a clear are ignored.
+        loading.then((loaded) => {
+            if (this.loading.get(key) !== loading) return;
+            this.loading.delete(key);
+            this.cache.set(key, loaded);
+        }, () => {
+            if (this.loading.get(key) === loading) this.loading.delete(key);
+        });
+    }
+
+    /**
+     * Removes all blocks from the cache and resets its statistics.
+     */
+    clear() {
+        this.cache.clear();
+        this.loading.clear();
+    }
+
+    get stats(): CacheStats {
+        return this.cache.stats;
+    }
+
+}
+
+function blockKey(dataOffset: number, dataSize: number): string {
+    return `${dataOffset}:${dataSize}`;
+}
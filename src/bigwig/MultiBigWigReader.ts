@@ -0,0 +1,169 @@
+import { BigWigReader, BigWigData } from "./BigWigReader";
+import { summaryStd } from "./BigWigSummary";
+import { DataMissingError } from "../loader/DataLoader";
+
+/**
+ * How values from several files are combined. Only files with data at a base or bin are combined.
+ */
+export type MultiBigWigAggregate = "mean" | "sum" | "min" | "max" | "median";
+
+/**
+ * Options for MultiBigWigReader.readAggregatedData.
+ *
+ * @prop aggregate How values from the files are combined. Defaults to "mean".
+ * @prop binSize Number of bases in each bin. Without it, values are combined for each base.
+ * @prop normalize "zscore" to normalize each file's values with the mean and standard deviation from its
+ *      total summary before combining them.
+ */
+export interface MultiBigWigOptions {
+    aggregate?: MultiBigWigAggregate;
+    binSize?: number;
+    normalize?: "zscore";
+}
+
+/**
+ * Class for reading several BigWig files as one track, ie. merging replicates on the fly.
+ * Data is read from all files concurrently.
+ */
+export class MultiBigWigReader {
+
+    /**
+     * @param readers Readers for each BigWig file.
+     */
+    constructor(private readers: Array<BigWigReader>) { }
+
+    /**
+     * Reads data from all files for a region and combines it. The result has the same shape as
+     * BigWigReader.readBigWigData's, so it can be used anywhere single file data is.
+     *
+     * Without a binSize, values are combined base by base from unzoomed data, and one record is returned for each
+     * run of bases with the same combined value. With a binSize, each file's mean over each bin is read like
+     * BigWigReader.readBigWigSummary, using zoom levels where they fit, and one record is returned for each bin.
+     * Bases and bins without data in any file are left out.
+     *
+     * @param chrom Chromosome
+     * @param startBase Starting base pair
+     * @param endBase Ending base pair
+     * @param options Options for combining the data.
+     * @param [signal] Optional AbortSignal to cancel the read
+     */
+    async readAggregatedData(chrom: string, startBase: number, endBase: number, options: MultiBigWigOptions = {},
+        signal?: AbortSignal): Promise<Array<BigWigData>> {
+        if (options.binSize !== undefined && (!Number.isInteger(options.binSize) || options.binSize < 1)) {
+            throw new RangeError(`binSize must be a positive integer, got ${options.binSize}.`);
+        }
+        const aggregate = aggregateFunction(options.aggregate || "mean");
+        const normalizers = await Promise.all(this.readers.map((reader) => this.getNormalizer(reader, options, signal)));
+
+        if (options.binSize === undefined) {
+            const tracks = await this.readFromAll(chrom, (reader) =>
+                reader.readBigWigData(chrom, startBase, chrom, endBase, signal));
+            return aggregateBases(chrom, startBase, endBase, tracks, normalizers, aggregate);
+        }
+
+        const binSize = options.binSize;
+        const nBins = Math.ceil((endBase - startBase) / binSize);
+        const binned = await this.readFromAll(chrom, (reader) =>
+            reader.readBigWigSummary(chrom, startBase, startBase + nBins * binSize, nBins, { stat: "mean" }, signal));
+        const data: Array<BigWigData> = [];
+        for (let bin = 0; bin < nBins; bin++) {
+            const values: Array<number> = [];
+            binned.forEach((binValues, i) => {
+                if (binValues.length > 0 && !isNaN(binValues[bin])) values.push(normalizers[i](binValues[bin]));
+            });
+            if (values.length === 0) continue;
+            const start = startBase + bin * binSize;
+            data.push({ chr: chrom, start, end: Math.min(start + binSize, endBase), value: aggregate(values) });
+        }
+        return data;
+    }
+
+    /**
+     * Reads from all files concurrently. Files without the chromosome give no data, unless none of the files have it.
+     */
+    private async readFromAll<T>(chrom: string, read: (reader: BigWigReader) => Promise<Array<T>>): Promise<Array<Array<T>>> {
+        let missing = 0;
+        const results = await Promise.all(this.readers.map(async (reader) => {
+            try {
+                return await read(reader);
+            } catch (e) {
+                if (!(e instanceof DataMissingError)) throw e;
+                missing++;
+                return [];
+            }
+        }));
+        if (missing === this.readers.length) throw new DataMissingError(chrom);
+        return results;
+    }
+
+    /**
+     * Gets the function used to normalize a file's values before they are combined.
+     */
+    private async getNormalizer(reader: BigWigReader, options: MultiBigWigOptions,
+        signal?: AbortSignal): Promise<(value: number) => number> {
+        if (options.normalize !== "zscore") return (value) => value;
+        const totalSummary = (await reader.getHeader(signal)).totalSummary;
+        if (totalSummary === undefined || totalSummary.basesCovered <= 0) return (value) => value;
+        const mean = totalSummary.sumData / totalSummary.basesCovered;
+        const std = summaryStd({ ...totalSummary, validCount: totalSummary.basesCovered });
+        return (value) => std > 0 ? (value - mean) / std : 0;
+    }
+
+}
+
+/**
+ * Combines base by base data from several files, returning a record for each run of bases with the same value.
+ * Each file's data must be sorted and not overlap, like unzoomed BigWig data.
+ */
+function aggregateBases(chrom: string, startBase: number, endBase: number, tracks: Array<Array<BigWigData>>,
+    normalizers: Array<(value: number) => number>, aggregate: (values: Array<number>) => number): Array<BigWigData> {
+    // Every start and end within the range is a point where the combined value may change.
+    const boundarySet = new Set<number>([startBase, endBase]);
+    for (const track of tracks) {
+        for (const d of track) {
+            if (d.start > startBase && d.start < endBase) boundarySet.add(d.start);
+            if (d.end > startBase && d.end < endBase) boundarySet.add(d.end);
+        }
+    }
+    const boundaries = Array.from(boundarySet).sort((a, b) => a - b);
+
+    const data: Array<BigWigData> = [];
+    const positions = tracks.map(() => 0);
+    for (let i = 0; i < boundaries.length - 1; i++) {
+        const start = boundaries[i], end = boundaries[i + 1];
+        const values: Array<number> = [];
+        tracks.forEach((track, t) => {
+            while (positions[t] < track.length && track[positions[t]].end <= start) positions[t]++;
+            const d = track[positions[t]];
+            if (d !== undefined && d.start <= start) values.push(normalizers[t](d.value));
+        });
+        if (values.length === 0) continue;
+        const value = aggregate(values);
+        const last = data[data.length - 1];
+        if (last !== undefined && last.end === start && last.value === value) {
+            last.end = end;
+        } else {
+            data.push({ chr: chrom, start, end, value });
+        }
+    }
+    return data;
+}
+
+function aggregateFunction(aggregate: MultiBigWigAggregate): (values: Array<number>) => number {
+    switch (aggregate) {
+        case "sum":
+            return (values) => values.reduce((sum, value) => sum + value, 0);
+        case "min":
+            return (values) => Math.min(...values);
+        case "max":
+            return (values) => Math.max(...values);
+        case "median":
+            return (values) => {
+                const sorted = [...values].sort((a, b) => a - b);
+                const middle = Math.floor(sorted.length / 2);
+                return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+            };
+        default:
+            return (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    }
+}
@@ -0,0 +1,126 @@
+import { BigWigReader, BigBedData } from "./BigWigReader";
+import { SummaryStat } from "./BigWigSummary";
+import { DataMissingError } from "../loader/DataLoader";
+import { mapConcurrently } from "../util/misc";
+
+const MAX_CONCURRENT_ROWS = 8;
+
+/**
+ * Options for computeSignalMatrix.
+ *
+ * @prop upstream Number of bases before the reference point to include. Defaults to 1000.
+ * @prop downstream Number of bases after the reference point to include. Defaults to 1000.
+ * @prop binSize Number of bases in each bin. Defaults to 10.
+ * @prop referencePoint The point of each region the matrix is centered on. Defaults to "start".
+ * @prop strandAware Whether to treat minus strand regions as reversed, so their end is their start and upstream
+ *      is to the right. Their rows are reversed so all rows read 5' to 3'. Defaults to true.
+ * @prop stat Statistic to use for each bin. Defaults to "mean".
+ */
+export interface SignalMatrixOptions {
+    upstream?: number;
+    downstream?: number;
+    binSize?: number;
+    referencePoint?: "start" | "center" | "end";
+    strandAware?: boolean;
+    stat?: SummaryStat;
+}
+
+/**
+ * Metadata for one row of a signal matrix.
+ *
+ * @prop anchor The reference point the row is centered on.
+ * @prop reversed Whether the row was reversed because the region is on the minus strand.
+ */
+export interface SignalMatrixRow {
+    chr: string;
+    start: number;
+    end: number;
+    name?: string;
+    strand?: string;
+    anchor: number;
+    reversed: boolean;
+}
+
+/**
+ * A matrix of BigWig signal around a set of regions, like deepTools' computeMatrix.
+ *
+ * @prop matrix Values for all rows, one after another. The value for a row and bin is at row * nBins + bin.
+ *      Bins without data, including bins on chromosomes the BigWig file doesn't have, are NaN.
+ * @prop nRows Number of rows, one for each region.
+ * @prop nBins Number of bins in each row.
+ * @prop binSize Number of bases in each bin.
+ * @prop rows Metadata for each row, in the same order as the regions.
+ */
+export interface SignalMatrix {
+    matrix: Float32Array;
+    nRows: number;
+    nBins: number;
+    binSize: number;
+    rows: Array<SignalMatrixRow>;
+}
+
+/**
+ * Computes a matrix of BigWig signal in fixed size bins around a reference point of each region, ie. for
+ * heatmaps and profiles of signal around transcription start sites or peak summits. Each bin is read from
+ * the best zoom level for the bin size, or from unzoomed data when bins are too small, like readBigWigSummary.
+ *
+ * @param bigWigReader Reader for the BigWig file with the signal.
+ * @param regions The regions to anchor each row on, or a reader for a BigBed file to use all of its regions.
+ * @param options Options for the layout of the matrix.
+ * @param [signal] Optional AbortSignal to cancel the read
+ */
+export async function computeSignalMatrix(bigWigReader: BigWigReader, regions: Array<BigBedData> | BigWigReader,
+    options: SignalMatrixOptions = {}, signal?: AbortSignal): Promise<SignalMatrix> {
+    const upstream = options.upstream !== undefined ? options.upstream : 1000;
+    const downstream = options.downstream !== undefined ? options.downstream : 1000;
+    const binSize = options.binSize !== undefined ? options.binSize : 10;
+    const referencePoint = options.referencePoint || "start";
+    const strandAware = options.strandAware !== false;
+    if (!Number.isInteger(binSize) || binSize < 1) {
+        throw new RangeError(`binSize must be a positive integer, got ${binSize}.`);
+    }
+
+    const anchorRegions = regions instanceof BigWigReader ? await readAllBigBedData(regions, signal) : regions;
+    const upstreamBins = Math.ceil(upstream / binSize);
+    const downstreamBins = Math.ceil(downstream / binSize);
+    const nBins = upstreamBins + downstreamBins;
+    const matrix = new Float32Array(anchorRegions.length * nBins);
+
+    const rows: Array<SignalMatrixRow> = anchorRegions.map((region) => {
+        const reversed = strandAware && region.strand === "-";
+        let anchor = Math.floor((region.start + region.end) / 2);
+        if (referencePoint === "start") anchor = reversed ? region.end : region.start;
+        if (referencePoint === "end") anchor = reversed ? region.start : region.end;
+        return { chr: region.chr, start: region.start, end: region.end, name: region.name, strand: region.strand,
+            anchor, reversed };
+    });
+
+    await mapConcurrently(rows.map((row, i) => i), MAX_CONCURRENT_ROWS, async (i) => {
+        const row = rows[i];
+        // Upstream of a reversed region is after its anchor.
+        const windowStart = row.anchor - (row.reversed ? downstreamBins : upstreamBins) * binSize;
+        let values: Array<number>;
+        try {
+            values = await bigWigReader.readBigWigSummary(row.chr, windowStart, windowStart + nBins * binSize, nBins,
+                { stat: options.stat }, signal);
+        } catch (e) {
+            if (!(e instanceof DataMissingError)) throw e;
+            values = new Array(nBins).fill(NaN);
+        }
+        if (row.reversed) values.reverse();
+        matrix.set(values, i * nBins);
+    });
+
+    return { matrix, nRows: rows.length, nBins, binSize, rows };
+}
+
+/**
+ * Reads all regions from a BigBed file.
+ */
+async function readAllBigBedData(bigBedReader: BigWigReader, signal?: AbortSignal): Promise<Array<BigBedData>> {
+    const regions: Array<BigBedData> = [];
+    for await (const region of bigBedReader.iterateAll({}, signal)) {
+        regions.push(region as BigBedData);
+    }
+    return regions;
+}
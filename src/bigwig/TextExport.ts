@@ -0,0 +1,156 @@
+import { Readable } from "stream";
+import { BigWigReader, BigWigSection, GenomicRegion } from "./BigWigReader";
+import { AbortError } from "../loader/DataLoader";
+
+/**
+ * Options for exportBigWigText.
+ *
+ * @prop format "bedGraph" for four column bedGraph lines, or "wig" to keep each section's fixedStep or variableStep
+ *      encoding, like UCSC's bigWigToWig. Sections stored as bedGraph are written as bedGraph in either format.
+ *      Defaults to "bedGraph".
+ * @prop regions Only export data in these regions. Defaults to the whole file.
+ */
+export interface BigWigTextOptions {
+    format?: "bedGraph" | "wig";
+    regions?: Array<GenomicRegion>;
+}
+
+/**
+ * Options for exportBigBedText.
+ *
+ * @prop regions Only export records overlapping these regions. Defaults to the whole file.
+ */
+export interface BigBedTextOptions {
+    regions?: Array<GenomicRegion>;
+}
+
+/**
+ * Exports BigWig data as bedGraph or WIG text. Text is yielded one line at a time, with line endings, and data is
+ * only read from the file as the text is used. Values are written with 6 significant digits, like UCSC's tools.
+ * Data overlapping more than one of the given regions is written once for each region.
+ *
+ * @param reader Reader for the BigWig file.
+ * @param options Output format and regions to export.
+ * @param [signal] Optional AbortSignal to cancel the read
+ */
+export async function* exportBigWigText(reader: BigWigReader, options: BigWigTextOptions = {},
+    signal?: AbortSignal): AsyncIterableIterator<string> {
+    const format = options.format !== undefined ? options.format : "bedGraph";
+    for (const region of await exportRegions(reader, options.regions, signal)) {
+        for await (const section of reader.iterateBigWigSections(region.chr, region.start, region.chr, region.end, signal)) {
+            yield* format === "wig" ? formatWigSection(section) : formatBedGraphSection(section);
+        }
+    }
+}
+
+/**
+ * Exports BigBed records as tab-delimited BED text. Each record's columns after chrom, start and end are written
+ * exactly as they were stored, so no fields are lost. Text is yielded one line at a time, with line endings, and
+ * records are only read from the file as the text is used. Records overlapping more than one of the given
+ * regions are written once for each region.
+ *
+ * @param reader Reader for the BigBed file.
+ * @param options Regions to export.
+ * @param [signal] Optional AbortSignal to cancel the read
+ */
+export async function* exportBigBedText(reader: BigWigReader, options: BigBedTextOptions = {},
+    signal?: AbortSignal): AsyncIterableIterator<string> {
+    const formatLine = (chrom: string, startBase: number, endBase: number, rest: string) =>
+        `${chrom}\t${startBase}\t${endBase}${rest.length > 0 ? "\t" + rest : ""}\n`;
+    for (const region of await exportRegions(reader, options.regions, signal)) {
+        yield* reader.iterateBigBedData(region.chr, region.start, region.chr, region.end, formatLine, signal);
+    }
+}
+
+/**
+ * Streams BigWig data as bedGraph or WIG text. See exportBigWigText. Loading pauses while the stream's buffer
+ * is full, and stops for good when the stream is destroyed.
+ *
+ * @param reader Reader for the BigWig file.
+ * @param options Output format and regions to export.
+ * @param [signal] Optional AbortSignal to cancel the read
+ */
+export function streamBigWigText(reader: BigWigReader, options: BigWigTextOptions = {}, signal?: AbortSignal): Readable {
+    return streamText(exportBigWigText(reader, options, signal), signal);
+}
+
+/**
+ * Streams BigBed records as BED text. See exportBigBedText. Loading pauses while the stream's buffer is full,
+ * and stops for good when the stream is destroyed.
+ *
+ * @param reader Reader for the BigBed file.
+ * @param options Regions to export.
+ * @param [signal] Optional AbortSignal to cancel the read
+ */
+export function streamBigBedText(reader: BigWigReader, options: BigBedTextOptions = {}, signal?: AbortSignal): Readable {
+    return streamText(exportBigBedText(reader, options, signal), signal);
+}
+
+/**
+ * Gets the regions to export, or one region for each whole chromosome if none are given.
+ */
+async function exportRegions(reader: BigWigReader, regions: Array<GenomicRegion> | undefined,
+    signal?: AbortSignal): Promise<Array<GenomicRegion>> {
+    if (regions !== undefined) return regions;
+    return (await reader.getChromosomes(signal)).map((chrom) => ({ chr: chrom.name, start: 0, end: chrom.size }));
+}
+
+function* formatBedGraphSection(section: BigWigSection): IterableIterator<string> {
+    for (const d of section.data) {
+        yield `${d.chr}\t${d.start}\t${d.end}\t${formatValue(d.value)}\n`;
+    }
+}
+
+/**
+ * Formats a section in its original encoding, like UCSC's bigWigToWig. WIG positions are 1-based.
+ */
+function* formatWigSection(section: BigWigSection): IterableIterator<string> {
+    if (section.type === "fixedStep") {
+        yield `fixedStep chrom=${section.chr} start=${section.start + 1} step=${section.step} span=${section.span}\n`;
+        for (const d of section.data) {
+            yield `${formatValue(d.value)}\n`;
+        }
+    } else if (section.type === "variableStep") {
+        yield `variableStep chrom=${section.chr} span=${section.span}\n`;
+        for (const d of section.data) {
+            yield `${d.start + 1}\t${formatValue(d.value)}\n`;
+        }
+    } else {
+        yield `#bedGraph section ${section.chr}:${section.start}-${section.end}\n`;
+        yield* formatBedGraphSection(section);
+    }
+}
+
+/**
+ * Formats a value with 6 significant digits, like C's %g.
+ */
+function formatValue(value: number): string {
+    return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * Wraps text from an async iterator in a stream, pulling more only when the stream wants it.
+ */
+function streamText(text: AsyncIterableIterator<string>, signal?: AbortSignal): Readable {
+    let destroyed = false;
+    const stream = new Readable({
+        encoding: "utf8",
+        read() {
+            text.next().then((result) => {
+                if (destroyed) return;
+                stream.push(result.done ? null : result.value);
+            }, (error) => {
+                if (!destroyed) stream.destroy(error);
+            });
+        },
+        destroy(error, callback) {
+            destroyed = true;
+            if (signal !== undefined) signal.removeEventListener("abort", onAbort);
+            // Stop the iterator where it is, closing any reads it has open.
+            text.return!().then(() => callback(error), () => callback(error));
+        }
+    });
+    const onAbort = () => stream.destroy(new AbortError());
+    if (signal !== undefined) signal.addEventListener("abort", onAbort);
+    return stream;
+}
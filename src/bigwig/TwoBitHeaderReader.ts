@@ -202,6 +202,29 @@ export async function streamSequence(dataLoader: DataLoader, header: HeaderData,
         return stream;
     }
 }
+/**
+ * Iterates over sequence data from a two-bit file in chunks, in the same chunks streamSequence uses.
+ * Each chunk is only loaded when it's requested.
+ *
+ * @param dataLoader class which handles reading ranges from the file, via HTTP, FTP, etc.
+ * @param header the header data, read by loadHeaderData.
+ * @param sequence the sequence record for the chromosome to read from.
+ * @param start the start position on the chromsome, 0-based and inclusive.
+ * @param end the end position on the chromosome, 0-based and not inclusive.
+ * @param chunkSize the number of bases in each chunk.
+ */
+export async function* iterateSequence(dataLoader: DataLoader, header: HeaderData,
+        sequence: SequenceRecord, start: number, end: number, chunkSize: number = 1024): AsyncIterableIterator<string> {
+    let currentStart = start;
+    while (currentStart < end) {
+        let currentEnd = currentStart + chunkSize - 1;
+        if (currentEnd >= end) currentEnd = end;
+        // Chunks are loaded straight from the file, since buffering would load the whole range up front.
+        yield await loadSequence(dataLoader, header, sequence, currentStart, currentEnd);
+        currentStart = currentEnd + 1;
+    }
+}
+
 export async function loadOneHotEncodingFromSequence(dataLoader: DataLoader|BufferedDataLoader, header: HeaderData, 
     sequence: SequenceRecord, start: number, end: number):Promise<Array<Array<number>>> {
     const seq = await loadSequence(dataLoader, header, sequence, start, end)       
@@ -0,0 +1,103 @@
+export interface InteractAnchor {
+    chr: string,
+    start: number,
+    end: number,
+    name?: string,
+    // + or - or . for unknown
+    strand?: string
+}
+
+export interface BigBedDataInteract {
+    chr: string,
+    start: number,
+    end: number,
+    name?: string,
+    // Score from 0-1000
+    score?: number,
+    // Strength of the interaction
+    value?: number,
+    // Experiment name, for filtering or coloring
+    exp?: string,
+    // Color value R,G,B or color name
+    color?: string,
+    // Source region of the interaction
+    source?: InteractAnchor,
+    // Target region of the interaction
+    target?: InteractAnchor
+}
+
+export const parseBigBedInteract = function (chrom: string, startBase: number, endBase: number, rest: string) {
+    const entry: BigBedDataInteract = {
+        chr: chrom,
+        start: startBase,
+        end: endBase
+    }
+
+    let tokens = rest.split("\t");
+    if (tokens.length > 0) {
+        entry.name = tokens[0];
+    }
+    if (tokens.length > 1) {
+        entry.score = parseInt(tokens[1]);
+    }
+    if (tokens.length > 2) {
+        entry.value = parseFloat(tokens[2]);
+    }
+    if (tokens.length > 3) {
+        entry.exp = tokens[3];
+    }
+    if (tokens.length > 4) {
+        entry.color = tokens[4];
+    }
+    if (tokens.length > 9) {
+        entry.source = {
+            chr: tokens[5],
+            start: parseInt(tokens[6]),
+            end: parseInt(tokens[7]),
+            name: tokens[8],
+            strand: tokens[9]
+        };
+    }
+    if (tokens.length > 14) {
+        entry.target = {
+            chr: tokens[10],
+            start: parseInt(tokens[11]),
+            end: parseInt(tokens[12]),
+            name: tokens[13],
+            strand: tokens[14]
+        };
+    }
+
+    return entry;
+}
+
+/**
+ * Keeps the interactions with their source or target anchor overlapping the given range, dropping repeats of the
+ * same interaction. Interactions without anchors are kept if their span overlaps the range.
+ *
+ * @param interactions Interactions to filter.
+ * @param chrom Chromosome
+ * @param startBase Starting base pair
+ * @param endBase Ending base pair
+ */
+export function filterInteractsByAnchor(interactions: Array<BigBedDataInteract>, chrom: string, startBase: number,
+    endBase: number): Array<BigBedDataInteract> {
+    const overlaps = (region: { chr: string, start: number, end: number }) =>
+        region.chr === chrom && region.start < endBase && region.end > startBase;
+    const seen = new Set<string>();
+    return interactions.filter((interaction) => {
+        const { source, target } = interaction;
+        const inView = source === undefined || target === undefined ? overlaps(interaction) :
+            overlaps(source) || overlaps(target);
+        if (!inView) return false;
+        const key = source === undefined || target === undefined ? interactionKey(interaction) :
+            [interactionKey(source), interactionKey(target), interaction.name].join("\t");
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+function interactionKey(region: { chr: string, start: number, end: number, name?: string }): string {
+    return `${region.chr}:${region.start}-${region.end}:${region.name}`;
+}
@@ -1,6 +1,27 @@
-export { HeaderData, FileType, CommonHeader, ZoomLevelHeader, BWTotalSummary, ChromTree } from "./BigWigHeaderReader";
+export { HeaderData, FileType, CommonHeader, ZoomLevelHeader, BWTotalSummary, ChromTree, ExtensionHeader, ExtraIndex } from "./BigWigHeaderReader";
 export {
     BigBedDataNarrowPeak, BigBedDataBroadPeak, BigBedDataMethyl, BigBedDataTssPeak, BigBedDataIdrPeak,
     parseBigBedBroadPeak, parseBigBedIdrPeak, parseBigBedMethyl, parseBigBedNarrowPeak, parseBigBedTssPeak
 } from "./encodeBigBed";
-export { BigWigData, BigBedData, BigZoomData, BigWigReader, parseBigBed, ParseFunction } from "./BigWigReader";
\ No newline at end of file
+export {
+    BigBedDataGenePred, BigBedDataPsl, BigBedDataChain, BigBedDataLink,
+    parseBigBedGenePred, parseBigBedPsl, parseBigBedChain, parseBigBedLink, readBigChainData
+} from "./ucscBigBed";
+export { BigBedDataInteract, InteractAnchor, parseBigBedInteract } from "./bigInteract";
+export { BedpeReader } from "./BedpeReader";
+export {
+    BigWigData, BigBedData, BigZoomData, GenomicRegion, BigWigReader, BigWigReaderOptions, BigWigCacheStats, ChromosomeInfo,
+    IterateAllOptions, BigBedExon, BigBedFilter, BigBedReadOptions, BigWigSection, BigWigSectionType, FindNearestOptions,
+    NearestFeature, parseBigBed, ParseFunction
+} from "./BigWigReader";
+export { CacheStats } from "../util/LruCache";
+export { BlockCache } from "./BlockCache";
+export { SummaryStat, BigWigSummaryOptions, BigWigRegionStats, ArrayReducer, BigWigArrayOptions } from "./BigWigSummary";
+export { AutoSqlField, AutoSqlSchema, AutoSqlValue, BigBedDataAutoSql, parseAutoSql, parseWithAutoSql, formatWithAutoSql, bedAutoSql } from "./AutoSql";
+export { BigFileWriterOptions } from "./BigFileWriter";
+export { BigWigWriter } from "./BigWigWriter";
+export { MultiBigWigReader, MultiBigWigOptions, MultiBigWigAggregate } from "./MultiBigWigReader";
+export { BigBedWriter, BigBedWriterOptions, FormatFunction, formatBigBed } from "./BigBedWriter";
+export { computeSignalMatrix, SignalMatrix, SignalMatrixOptions, SignalMatrixRow } from "./SignalMatrix";
+export { averageOverBed, iterateAverageOverBed, BedAverage, BedSource } from "./AverageOverBed";
+export { exportBigWigText, exportBigBedText, streamBigWigText, streamBigBedText, BigWigTextOptions, BigBedTextOptions } from "./TextExport";
@@ -0,0 +1,284 @@
+import { BigWigReader, BigBedData, BigBedExon, parseBigBed } from "./BigWigReader";
+
+export interface BigBedDataGenePred extends BigBedData {
+    // Exon segments between thickStart (cdStart) and thickEnd (cdEnd), in genomic coordinates
+    cds?: Array<BigBedExon>,
+    // Alternative or human readable name
+    name2?: string,
+    // Status of CDS start annotation: none, unk, incmpl or cmpl
+    cdsStartStat?: string,
+    // Status of CDS end annotation: none, unk, incmpl or cmpl
+    cdsEndStat?: string,
+    // Reading frame of each exon's start, -1 if the exon has no coding bases
+    exonFrames?: Array<number>,
+    // Transcript type
+    type?: string,
+    // Primary identifier for gene
+    geneName?: string,
+    // Alternative or human readable gene name
+    geneName2?: string,
+    // Gene type
+    geneType?: string
+}
+
+export interface BigBedDataPsl extends BigBedData {
+    // Aligned blocks between thickStart (cdStart) and thickEnd (cdEnd), in genomic coordinates
+    cds?: Array<BigBedExon>,
+    // Start of the alignment on the query sequence
+    oChromStart?: number,
+    // End of the alignment on the query sequence
+    oChromEnd?: number,
+    // Strand of the query sequence
+    oStrand?: string,
+    // Size of the query sequence
+    oChromSize?: number,
+    // Start of each block on the query sequence, matching each of the exons
+    oChromStarts?: Array<number>,
+    // Query sequence, if stored
+    oSequence?: string,
+    // CDS of the query sequence, if stored
+    oCDS?: string,
+    // Size of the target chromosome
+    chromSize?: number,
+    // Number of bases that match
+    match?: number,
+    // Number of bases that don't match
+    misMatch?: number,
+    // Number of bases that match but are part of repeats
+    repMatch?: number,
+    // Number of 'N' bases
+    nCount?: number,
+    // 0 for empty, 1 for nucleotide and 2 for amino acid query sequences
+    seqType?: number
+}
+
+export interface BigBedDataChain {
+    chr: string,
+    start: number,
+    end: number,
+    // Chain id, matching the name of its links
+    name?: string,
+    score?: number,
+    // Strand of the query sequence
+    strand?: string,
+    // Size of the target chromosome
+    tSize?: number,
+    // Name of the query sequence
+    qName?: string,
+    // Size of the query sequence
+    qSize?: number,
+    // Start of the chain on the query sequence
+    qStart?: number,
+    // End of the chain on the query sequence
+    qEnd?: number,
+    // Score of the chain
+    chainScore?: number,
+    // Aligned blocks of the chain from its link file, sorted by start
+    links?: Array<BigBedDataLink>
+}
+
+export interface BigBedDataLink {
+    chr: string,
+    start: number,
+    end: number,
+    // Id of the chain this link is part of
+    name?: string,
+    // Start of the link on the query sequence
+    qStart?: number
+}
+
+export const parseBigBedGenePred = function (chrom: string, startBase: number, endBase: number, rest: string) {
+    const entry: BigBedDataGenePred = parseBigBed(chrom, startBase, endBase, rest);
+    entry.cds = cdsSegments(entry);
+
+    let tokens = rest.split("\t");
+    if (tokens.length > 9) {
+        entry.name2 = tokens[9];
+    }
+    if (tokens.length > 10) {
+        entry.cdsStartStat = tokens[10];
+    }
+    if (tokens.length > 11) {
+        entry.cdsEndStat = tokens[11];
+    }
+    if (tokens.length > 12) {
+        entry.exonFrames = parseIntList(tokens[12]);
+    }
+    if (tokens.length > 13) {
+        entry.type = tokens[13];
+    }
+    if (tokens.length > 14) {
+        entry.geneName = tokens[14];
+    }
+    if (tokens.length > 15) {
+        entry.geneName2 = tokens[15];
+    }
+    if (tokens.length > 16) {
+        entry.geneType = tokens[16];
+    }
+
+    return entry;
+}
+
+export const parseBigBedPsl = function (chrom: string, startBase: number, endBase: number, rest: string) {
+    const entry: BigBedDataPsl = parseBigBed(chrom, startBase, endBase, rest);
+    entry.cds = cdsSegments(entry);
+
+    let tokens = rest.split("\t");
+    if (tokens.length > 9) {
+        entry.oChromStart = parseInt(tokens[9]);
+    }
+    if (tokens.length > 10) {
+        entry.oChromEnd = parseInt(tokens[10]);
+    }
+    if (tokens.length > 11) {
+        entry.oStrand = tokens[11];
+    }
+    if (tokens.length > 12) {
+        entry.oChromSize = parseInt(tokens[12]);
+    }
+    if (tokens.length > 13) {
+        entry.oChromStarts = parseIntList(tokens[13]);
+    }
+    if (tokens.length > 14) {
+        entry.oSequence = tokens[14];
+    }
+    if (tokens.length > 15) {
+        entry.oCDS = tokens[15];
+    }
+    if (tokens.length > 16) {
+        entry.chromSize = parseInt(tokens[16]);
+    }
+    if (tokens.length > 17) {
+        entry.match = parseInt(tokens[17]);
+    }
+    if (tokens.length > 18) {
+        entry.misMatch = parseInt(tokens[18]);
+    }
+    if (tokens.length > 19) {
+        entry.repMatch = parseInt(tokens[19]);
+    }
+    if (tokens.length > 20) {
+        entry.nCount = parseInt(tokens[20]);
+    }
+    if (tokens.length > 21) {
+        entry.seqType = parseInt(tokens[21]);
+    }
+
+    return entry;
+}
+
+export const parseBigBedChain = function (chrom: string, startBase: number, endBase: number, rest: string) {
+    const entry: BigBedDataChain = {
+        chr: chrom,
+        start: startBase,
+        end: endBase
+    }
+
+    let tokens = rest.split("\t");
+    if (tokens.length > 0) {
+        entry.name = tokens[0];
+    }
+    if (tokens.length > 1) {
+        entry.score = parseInt(tokens[1]);
+    }
+    if (tokens.length > 2) {
+        entry.strand = tokens[2];
+    }
+    if (tokens.length > 3) {
+        entry.tSize = parseInt(tokens[3]);
+    }
+    if (tokens.length > 4) {
+        entry.qName = tokens[4];
+    }
+    if (tokens.length > 5) {
+        entry.qSize = parseInt(tokens[5]);
+    }
+    if (tokens.length > 6) {
+        entry.qStart = parseInt(tokens[6]);
+    }
+    if (tokens.length > 7) {
+        entry.qEnd = parseInt(tokens[7]);
+    }
+    if (tokens.length > 8) {
+        entry.chainScore = parseFloat(tokens[8]);
+    }
+
+    return entry;
+}
+
+export const parseBigBedLink = function (chrom: string, startBase: number, endBase: number, rest: string) {
+    const entry: BigBedDataLink = {
+        chr: chrom,
+        start: startBase,
+        end: endBase
+    }
+
+    let tokens = rest.split("\t");
+    if (tokens.length > 0) {
+        entry.name = tokens[0];
+    }
+    if (tokens.length > 1) {
+        entry.qStart = parseInt(tokens[1]);
+    }
+
+    return entry;
+}
+
+/**
+ * Reads bigChain data with the links for each chain joined in from the chain's bigLink file, like UCSC's
+ * chain tracks. Links are read over the whole span of the chains found, so chains extending past the given
+ * range still get all of their links.
+ *
+ * @param chainReader Reader for the bigChain file.
+ * @param linkReader Reader for the bigLink file that goes with it.
+ * @param chrom Chromosome
+ * @param startBase Starting base pair
+ * @param endBase Ending base pair
+ * @param [signal] Optional AbortSignal to cancel the read
+ */
+export async function readBigChainData(chainReader: BigWigReader, linkReader: BigWigReader, chrom: string,
+    startBase: number, endBase: number, signal?: AbortSignal): Promise<Array<BigBedDataChain>> {
+    const chains = await chainReader.readBigBedData(chrom, startBase, chrom, endBase, parseBigBedChain, signal);
+    if (chains.length === 0) return chains;
+
+    let linksStart = chains[0].start, linksEnd = chains[0].end;
+    for (const chain of chains) {
+        linksStart = Math.min(linksStart, chain.start);
+        linksEnd = Math.max(linksEnd, chain.end);
+    }
+    const linksByChain = new Map<string, Array<BigBedDataLink>>();
+    for (const link of await linkReader.readBigBedData(chrom, linksStart, chrom, linksEnd, parseBigBedLink, signal)) {
+        const chainLinks = linksByChain.get(link.name!);
+        if (chainLinks !== undefined) {
+            chainLinks.push(link);
+        } else {
+            linksByChain.set(link.name!, [link]);
+        }
+    }
+    for (const chain of chains) {
+        chain.links = linksByChain.get(chain.name!) || [];
+    }
+    return chains;
+}
+
+/**
+ * Clips a record's exons to its thick (coding) region.
+ */
+function cdsSegments(entry: BigBedData): Array<BigBedExon> | undefined {
+    if (entry.exons === undefined || entry.cdStart === undefined || entry.cdEnd === undefined) return undefined;
+    const cds: Array<BigBedExon> = [];
+    for (const exon of entry.exons) {
+        const start = Math.max(exon.start, entry.cdStart);
+        const end = Math.min(exon.end, entry.cdEnd);
+        if (start < end) cds.push({ start, end });
+    }
+    return cds;
+}
+
+/**
+ * Parses a comma separated list of integers, which may end with a trailing comma.
+ */
+function parseIntList(list: string): Array<number> {
+    return list.split(",").filter((value) => value.length > 0).map((value) => parseInt(value));
+}
@@ -1,3 +1,4 @@
 export * from "./bigwig";
 export * from "./loader";
 export * from "./bam";
+export * from "./alias";
\ No newline at end of file
@@ -1,10 +1,11 @@
-import { DataLoader, OutOfRangeError } from './DataLoader';
-import Axios, { AxiosInstance, AxiosResponse } from "axios";
+import { DataLoader, OutOfRangeError, AbortError, throwIfAborted } from './DataLoader';
+import Axios, { AxiosInstance, AxiosResponse, ResponseType } from "axios";
 import { Readable } from 'stream';
 
 /**
  * DataLoader for http range requests using Axios library.
  * You can pass in your own request configuration via the axios arg in the constructor.
+ * Requests are cancelled when the AbortSignal passed to load or loadStream is aborted.
  */
 export class AxiosDataLoader implements DataLoader {
 
@@ -12,16 +13,8 @@ export class AxiosDataLoader implements DataLoader {
 
     constructor(private url: string, private axios: AxiosInstance = Axios.create()) {}
 
-    async load(start: number, size?: number): Promise<ArrayBuffer> {
-        const response: AxiosResponse<ArrayBuffer|Buffer> = await this.axios.get(this.url, { 
-            responseType: 'arraybuffer', 
-            headers: { "Range": `bytes=${start}-${size ? start+size-1 : ""}`}
-        });
-
-        // If we get an out of range response
-        if (416 == response.status) {
-            throw new OutOfRangeError(this.url, start, size);
-        }
+    async load(start: number, size?: number, signal?: AbortSignal): Promise<ArrayBuffer> {
+        const response: AxiosResponse<ArrayBuffer|Buffer> = await this.get('arraybuffer', start, size, signal);
 
         // If this is running on node.js axios will return node.js "Buffer" objects for arraybuffer requests
         if (response.data instanceof Buffer) {
@@ -31,18 +24,47 @@ export class AxiosDataLoader implements DataLoader {
         }
     }
 
-    async loadStream(start: number, size?: number): Promise<Readable> {
-        const response: AxiosResponse<Readable> = await this.axios.get(this.url, { 
-            responseType: 'stream', 
-            headers: { "Range": `bytes=${start}-${size ? start+size-1 : ""}`}
-        });
+    async loadStream(start: number, size?: number, signal?: AbortSignal): Promise<Readable> {
+        const response: AxiosResponse<Readable> = await this.get('stream', start, size, signal);
+        const stream = response.data;
+        // Stop the download if the signal is aborted while the data is still streaming in.
+        if (signal !== undefined) {
+            const onAbort = () => stream.destroy(new AbortError());
+            signal.addEventListener("abort", onAbort);
+            stream.once("close", () => signal.removeEventListener("abort", onAbort));
+        }
+        return stream;
+    }
+
+    /**
+     * Makes a range request, cancelling it if the signal is aborted before the response arrives.
+     */
+    private async get<T>(responseType: ResponseType, start: number, size: number|undefined,
+        signal?: AbortSignal): Promise<AxiosResponse<T>> {
+        throwIfAborted(signal);
+        const cancelSource = Axios.CancelToken.source();
+        const onAbort = () => cancelSource.cancel();
+        if (signal !== undefined) signal.addEventListener("abort", onAbort);
+
+        let response: AxiosResponse<T>;
+        try {
+            response = await this.axios.get(this.url, { 
+                responseType, 
+                headers: { "Range": `bytes=${start}-${size ? start+size-1 : ""}`},
+                cancelToken: cancelSource.token
+            });
+        } catch (e) {
+            if (Axios.isCancel(e)) throw new AbortError();
+            throw e;
+        } finally {
+            if (signal !== undefined) signal.removeEventListener("abort", onAbort);
+        }
 
         // If we get an out of range response
         if (416 == response.status) {
             throw new OutOfRangeError(this.url, start, size);
         }
-
-        return response.data;
+        return response;
     }
 
 }
\ No newline at end of file
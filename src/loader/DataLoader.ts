@@ -5,7 +5,8 @@ export enum ErrorType {
     OUT_OF_RANGE = "OUT_OF_RANGE",
     DATA_MISSING = "DATA_MISSING",
     IO = "IO",
-    FILE_FORMAT = "FILE_FORMAT"
+    FILE_FORMAT = "FILE_FORMAT",
+    ABORTED = "ABORTED"
 };
 
 /**
@@ -16,10 +17,10 @@ export enum ErrorType {
  * A single implementation of this class is to be provided when constructing BigWigReader.
  */
 export interface DataLoader {
-    // Loads data for the given range
-    load: (start: number, size?: number) => Promise<ArrayBuffer>;
+    // Loads data for the given range. Implementations should cancel the request when the signal is aborted.
+    load: (start: number, size?: number, signal?: AbortSignal) => Promise<ArrayBuffer>;
     // Loads data into a stream for the given range
-    loadStream?: (start: number, size?: number) => Promise<Readable>;
+    loadStream?: (start: number, size?: number, signal?: AbortSignal) => Promise<Readable>;
 }
 
 /**
@@ -62,6 +63,68 @@ export class FileFormatError extends Error {
     }
 }
 
+/**
+ * Error thrown when a read is cancelled with an AbortSignal.
+ */
+export class AbortError extends Error {
+    errortype = ErrorType.ABORTED;
+    constructor(public message: string = "The operation was aborted.") {
+	    super(message);
+    }
+}
+
+/**
+ * Throws an AbortError if the given signal has been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+    if (signal !== undefined && signal.aborted) {
+        throw new AbortError();
+    }
+}
+
+/**
+ * Waits for a promise, but rejects with an AbortError as soon as the signal is aborted.
+ * For waiting on work shared with other reads, which this read's signal can't cancel.
+ */
+export function raceAbortSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal === undefined) return promise;
+    return new Promise<T>((resolve, reject) => {
+        if (signal.aborted) return reject(new AbortError());
+        const onAbort = () => reject(new AbortError());
+        signal.addEventListener("abort", onAbort);
+        promise.then(resolve, reject).then(() => signal.removeEventListener("abort", onAbort));
+    });
+}
+
+/**
+ * Wraps a DataLoader so every load is passed the given AbortSignal. Loads are rejected with an AbortError 
+ * once the signal is aborted, even if the wrapped DataLoader ignores the signal.
+ * 
+ * @param dataLoader the DataLoader to wrap.
+ * @param signal the signal. If undefined, the DataLoader is returned as is.
+ */
+export function withAbortSignal(dataLoader: DataLoader, signal?: AbortSignal): DataLoader {
+    if (signal === undefined) return dataLoader;
+    const abortable = async <T>(load: () => Promise<T>): Promise<T> => {
+        throwIfAborted(signal);
+        let result: T;
+        try {
+            result = await load();
+        } catch (e) {
+            throwIfAborted(signal);
+            throw e;
+        }
+        throwIfAborted(signal);
+        return result;
+    };
+    const loadStream = dataLoader.loadStream;
+    return {
+        load: (start: number, size?: number) => abortable(() => dataLoader.load(start, size, signal)),
+        loadStream: loadStream === undefined ? undefined :
+            (start: number, size?: number) => abortable(() => loadStream.call(dataLoader, start, size, signal))
+    };
+}
+
 /**
  * Wrapper for other DataLoaders that buffers. 
  * Used internally by the BigWigReader. This class does not implement DataLoader. 
@@ -77,6 +140,7 @@ export class BufferedDataLoader {
 
     private buffer?: LoaderBuffer;
     private stream?: Readable;
+    private destroyed = false;
 
     // These two are for waiting for data in stream mode.
     private streamCaughtUpLock?: StreamCaughtUpLock;
@@ -87,6 +151,9 @@ export class BufferedDataLoader {
         private streamMode: boolean = false) {}
 
     async load(start: number, size: number): Promise<ArrayBuffer> {
+        if (this.destroyed) {
+            throw new IOError("Can not load data after the loader was destroyed.");
+        }
         // If the data isn't in the buffer, load it.
         if (!this.bufferContainsData(start, size)) {
             if (!this.streamMode) {
@@ -99,6 +166,22 @@ export class BufferedDataLoader {
         return await this.getDataFromBuffer(start, size);
     }
 
+    /**
+     * Stops any stream in progress and frees the buffer. Loads waiting on the stream are rejected,
+     * and no more data can be loaded.
+     */
+    destroy() {
+        this.destroyed = true;
+        if (this.stream !== undefined) {
+            this.stream.destroy();
+            this.stream = undefined;
+        }
+        if (this.streamCaughtUpLock !== undefined) {
+            this.streamCaughtUpLock.endStream();
+        }
+        this.buffer = undefined;
+    }
+
     private async loadDataIntoBuffer(start: number, size: number) {
         let data;
         try {
@@ -1,4 +1,4 @@
-import { DataLoader } from "./DataLoader";
+import { DataLoader, throwIfAborted } from "./DataLoader";
 import { Readable } from "stream";
 import { createReadStream } from "fs";
 
@@ -9,11 +9,13 @@ export class FileDataLoader implements DataLoader {
 
     constructor(private file: File) {}
 
-    async load(start: number, size?: number): Promise<ArrayBuffer> {
+    async load(start: number, size?: number, signal?: AbortSignal): Promise<ArrayBuffer> {
+        throwIfAborted(signal);
 	    return (await new Response(this.file.slice(start, size && start + size))).arrayBuffer();
     }
 
-    async loadStream(start: number, size?: number): Promise<Readable> {
+    async loadStream(start: number, size?: number, signal?: AbortSignal): Promise<Readable> {
+        throwIfAborted(signal);
         return createReadStream(this.file.name, { start, end: size && start + size });
     }
 }
\ No newline at end of file
@@ -1,3 +1,3 @@
-export { DataLoader, ErrorType } from "./DataLoader";
+export { DataLoader, ErrorType, AbortError } from "./DataLoader";
 export { FileDataLoader } from "./FileDataLoader";
 export { AxiosDataLoader } from "./AxiosDataLoader";
@@ -1,3 +1,5 @@
+import { decodeUtf8 } from "./misc";
+
 /**
  * Utility class for reading useful primitive typed data from binary data.
  */
@@ -73,35 +75,39 @@ export class BinaryParser {
         return value;
     }
 
+    // Reads a null terminated UTF-8 string, stopping early after len bytes if given.
     getString(len?: number) {
-        let s = "", c: number;
-        while ((c = this.view.getUint8(this.position++)) != 0) {
-            s += String.fromCharCode(c);
-            if (len && s.length == len) break;
+        const start = this.position;
+        let end = start;
+        while (this.view.getUint8(this.position++) != 0) {
+            end++;
+            if (len && end - start == len) break;
         }
-        return s;
+        return decodeUtf8(new Uint8Array(this.view.buffer, this.view.byteOffset + start, end - start));
+    }
+
+    // Moves past a null terminated string without decoding it.
+    skipString() {
+        while (this.view.getUint8(this.position++) != 0) { }
     }
 
     getFixedLengthString(len: number) {
-        let s = "";
-        for (let i = 0; i < len; i++) {
-            let c = this.view.getUint8(this.position++);
-            if (c > 0) {
-                s += String.fromCharCode(c);
-            }
-        }
-        return s;
+        return this.getFilteredString(len, (c) => c > 0);
     }
 
     getFixedLengthTrimmedString(len: number) {
-        let s = "";
+        return this.getFilteredString(len, (c) => c > 32);
+    }
+
+    // Reads len bytes as a UTF-8 string, keeping only the bytes passing the filter.
+    private getFilteredString(len: number, keep: (c: number) => boolean) {
+        const bytes = new Uint8Array(len);
+        let kept = 0;
         for (let i = 0; i < len; i++) {
-            let c = this.view.getUint8(this.position++);
-            if (c > 32) {
-                s += String.fromCharCode(c);
-            }
+            const c = this.view.getUint8(this.position++);
+            if (keep(c)) bytes[kept++] = c;
         }
-        return s;
+        return decodeUtf8(bytes.subarray(0, kept));
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { encodeUtf8 } from "./misc";
+
+/**
+ * Utility class for writing primitive typed data to binary data. The counterpart to BinaryParser.
+ * The underlying buffer grows as needed.
+ */
+export class BinaryWriter {
+
+    private buffer: ArrayBuffer;
+    private view: DataView;
+    public position: number;
+
+    constructor(initialSize: number = 1024, private readonly littleEndian: boolean = true) {
+        this.buffer = new ArrayBuffer(Math.max(initialSize, 8));
+        this.view = new DataView(this.buffer);
+        this.position = 0;
+    }
+
+    private ensureCapacity(bytes: number) {
+        if (this.position + bytes <= this.buffer.byteLength) return;
+        let newSize = this.buffer.byteLength * 2;
+        while (newSize < this.position + bytes) newSize *= 2;
+        const newBuffer = new ArrayBuffer(newSize);
+        new Uint8Array(newBuffer).set(new Uint8Array(this.buffer));
+        this.buffer = newBuffer;
+        this.view = new DataView(this.buffer);
+    }
+
+    private putValue(writeFunc: (pos: number, littleEndian: boolean) => void, positionIncrement: number) {
+        this.ensureCapacity(positionIncrement);
+        writeFunc(this.position, this.littleEndian);
+        this.position += positionIncrement;
+    }
+
+    putByte(value: number) {
+        this.putValue((p: number) => this.view.setUint8(p, value), 1);
+    }
+
+    putUShort(value: number) {
+        this.putValue((p: number, le: boolean) => this.view.setUint16(p, value, le), 2);
+    }
+
+    putInt(value: number) {
+        this.putValue((p: number, le: boolean) => this.view.setInt32(p, value, le), 4);
+    }
+
+    putUInt(value: number) {
+        this.putValue((p: number, le: boolean) => this.view.setUint32(p, value, le), 4);
+    }
+
+    putFloat(value: number) {
+        this.putValue((p: number, le: boolean) => this.view.setFloat32(p, value, le), 4);
+    }
+
+    putDouble(value: number) {
+        this.putValue((p: number, le: boolean) => this.view.setFloat64(p, value, le), 8);
+    }
+
+    putLong(value: number) {
+        // DataView doesn't support long. So we'll write the two halves manually.
+        const low = value % 0x100000000;
+        const high = Math.floor(value / 0x100000000);
+        if (this.littleEndian) {
+            this.putUInt(low);
+            this.putUInt(high);
+        } else {
+            this.putUInt(high);
+            this.putUInt(low);
+        }
+    }
+
+    /**
+     * Writes a zero terminated UTF-8 string.
+     */
+    putString(value: string) {
+        this.putBytes(encodeUtf8(value));
+        this.putByte(0);
+    }
+
+    /**
+     * Writes a UTF-8 string padded with zeros to the given length in bytes.
+     * Throws if the string doesn't fit, rather than cutting a character in half.
+     */
+    putFixedLengthString(value: string, len: number) {
+        const bytes = encodeUtf8(value);
+        if (bytes.length > len) {
+            throw new RangeError(`String "${value}" is ${bytes.length} bytes long, more than the ${len} bytes available.`);
+        }
+        this.putBytes(bytes);
+        this.putZeros(len - bytes.length);
+    }
+
+    putBytes(data: Uint8Array) {
+        this.ensureCapacity(data.byteLength);
+        new Uint8Array(this.buffer).set(data, this.position);
+        this.position += data.byteLength;
+    }
+
+    /**
+     * Writes the given number of zero bytes.
+     */
+    putZeros(len: number) {
+        this.ensureCapacity(len);
+        new Uint8Array(this.buffer).fill(0, this.position, this.position + len);
+        this.position += len;
+    }
+
+    /**
+     * @returns a copy of the data written so far.
+     */
+    getData(): ArrayBuffer {
+        return this.buffer.slice(0, this.position);
+    }
+
+}
@@ -0,0 +1,108 @@
+/**
+ * Usage statistics for a cache.
+ *
+ * @prop entries number of entries currently cached.
+ * @prop bytes approximate memory used by the cached entries.
+ * @prop maxBytes the memory budget of the cache.
+ * @prop hits number of lookups that found a cached entry.
+ * @prop misses number of lookups that did not.
+ * @prop evictions number of entries removed to stay within the memory budget.
+ */
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+    maxBytes: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+}
+
+/**
+ * Least recently used cache bounded by the approximate memory used by its values.
+ */
+export class LruCache<K, V> {
+
+    // Maps keep insertion order, so the first entry is always the least recently used.
+    private entries = new Map<K, { value: V, size: number }>();
+    private bytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    /**
+     * @param maxBytes Memory budget for all cached values. Zero disables the cache.
+     * @param sizeOf Function returning the approximate memory used by a value in bytes.
+     */
+    constructor(private maxBytes: number, private sizeOf: (value: V) => number) { }
+
+    /**
+     * Gets a cached value and marks it as the most recently used, or returns undefined if it isn't cached.
+     */
+    get(key: K): V | undefined {
+        const entry = this.entries.get(key);
+        if (entry === undefined) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    /**
+     * Checks whether a value is cached without counting a lookup or changing its order.
+     */
+    has(key: K): boolean {
+        return this.entries.has(key);
+    }
+
+    /**
+     * Caches a value, evicting the least recently used values until the cache fits in its budget.
+     * Values larger than the whole budget are not cached.
+     */
+    set(key: K, value: V) {
+        this.delete(key);
+        const size = this.sizeOf(value);
+        if (size > this.maxBytes) return;
+        this.entries.set(key, { value, size });
+        this.bytes += size;
+        while (this.bytes > this.maxBytes) {
+            this.delete(this.entries.keys().next().value);
+            this.evictions++;
+        }
+    }
+
+    /**
+     * Removes a value from the cache.
+     */
+    delete(key: K) {
+        const entry = this.entries.get(key);
+        if (entry === undefined) return;
+        this.entries.delete(key);
+        this.bytes -= entry.size;
+    }
+
+    /**
+     * Removes all values from the cache and resets its statistics.
+     */
+    clear() {
+        this.entries.clear();
+        this.bytes = 0;
+        this.hits = 0;
+        this.misses = 0;
+        this.evictions = 0;
+    }
+
+    get stats(): CacheStats {
+        return {
+            entries: this.entries.size,
+            bytes: this.bytes,
+            maxBytes: this.maxBytes,
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions
+        };
+    }
+
+}
@@ -1,7 +1,59 @@
+import * as util from "util";
+
+// Node.js 10 only has these in its util module. Browsers and later versions of Node.js have them as globals.
+const utf8Encoder = new (typeof TextEncoder !== "undefined" ? TextEncoder : util.TextEncoder)();
+const utf8Decoder = new (typeof TextDecoder !== "undefined" ? TextDecoder : util.TextDecoder)("utf-8");
+
+/**
+ * Encodes a string as UTF-8.
+ */
+export function encodeUtf8(value: string): Uint8Array {
+    return utf8Encoder.encode(value);
+}
+
+/**
+ * Decodes UTF-8 bytes. Plain ASCII, by far the most common case in genomic files, is decoded without TextDecoder.
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+    let s = "";
+    for (let i = 0; i < bytes.length; i++) {
+        if (bytes[i] >= 0x80) return utf8Decoder.decode(bytes);
+        s += String.fromCharCode(bytes[i]);
+    }
+    return s;
+}
 
 export function appendBuffer(buffer1: ArrayBuffer, buffer2: ArrayBuffer) {
     const tmp = new Uint8Array(buffer1.byteLength + buffer2.byteLength);
     tmp.set(new Uint8Array(buffer1), 0);
     tmp.set(new Uint8Array(buffer2), buffer1.byteLength);
     return tmp.buffer;
-}
\ No newline at end of file
+}
+
+/**
+ * Maps items with an async function, running at most the given number of calls at once.
+ * Results keep the order of the items. Stops starting new calls after the first one fails.
+ */
+export async function mapConcurrently<T, R>(items: Array<T>, concurrency: number,
+    mapFunction: (item: T) => Promise<R>): Promise<Array<R>> {
+    const results: Array<R> = new Array(items.length);
+    let next = 0;
+    let failed = false;
+    const worker = async () => {
+        while (next < items.length && !failed) {
+            const i = next++;
+            try {
+                results[i] = await mapFunction(items[i]);
+            } catch (e) {
+                failed = true;
+                throw e;
+            }
+        }
+    };
+    const workers: Array<Promise<void>> = [];
+    for (let i = 0; i < Math.min(Math.max(concurrency, 1), items.length); i++) {
+        workers.push(worker());
+    }
+    await Promise.all(workers);
+    return results;
+}
@@ -0,0 +1,69 @@
+import { parseAutoSql, parseWithAutoSql } from "../src/";
+
+const bed12AutoSql = `table bed
+"Browser extensible data, with an enum and a set"
+    (
+    string chrom;      "Reference sequence chromosome or scaffold"
+    uint   chromStart; "Start position in chromosome"
+    uint   chromEnd;   "End position in chromosome"
+    string name;       "Name of item"
+    uint   score;      "Score from 0-1000"
+    char[1] strand;    "+ or -"
+    uint thickStart;   "Start of where display should be thick (start codon)"
+    uint thickEnd;     "End of where display should be thick (stop codon)"
+    uint reserved;     "Used as itemRgb as of 2004-11-22"
+    int blockCount;    "Number of blocks"
+    int[blockCount] blockSizes; "Comma separated list of block sizes"
+    int[blockCount] chromStarts; "Start positions relative to chromStart"
+    enum(coding, nonCoding) geneType; "Type of gene"
+    set(a, b, c) flags; "Flags"
+    float[2] scores;   "Two scores"
+    )`;
+
+describe("AutoSql", () => {
+    it("should parse an AutoSql definition", () => {
+        const schema = parseAutoSql(bed12AutoSql);
+        expect(schema.declareType).toBe("table");
+        expect(schema.name).toBe("bed");
+        expect(schema.comment).toBe("Browser extensible data, with an enum and a set");
+        expect(schema.fields.length).toBe(15);
+        expect(schema.fields[0]).toEqual({ type: "string", name: "chrom", comment: "Reference sequence chromosome or scaffold" });
+        expect(schema.fields[5]).toEqual({ type: "char", name: "strand", comment: "+ or -", size: 1 });
+        expect(schema.fields[10]).toEqual({ type: "int", name: "blockSizes", comment: "Comma separated list of block sizes", size: "blockCount" });
+        expect(schema.fields[12]).toEqual({ type: "enum", name: "geneType", comment: "Type of gene", values: ["coding", "nonCoding"] });
+        expect(schema.fields[13]).toEqual({ type: "set", name: "flags", comment: "Flags", values: ["a", "b", "c"] });
+    });
+
+    it("should skip field modifiers", () => {
+        const schema = parseAutoSql(`table t "a table" ( string chrom; uint chromStart; uint chromEnd; string name primary; "Name" )`);
+        expect(schema.fields.map((f) => f.name)).toEqual(["chrom", "chromStart", "chromEnd", "name"]);
+        expect(schema.fields[3].comment).toBe("Name");
+    });
+
+    it("should decode bed data with a parsed schema", () => {
+        const parse = parseWithAutoSql(parseAutoSql(bed12AutoSql));
+        const rest = ["gene1", "500", "+", "100", "200", "255,0,0", "2", "10,20,", "0,80,", "coding", "a,c", "1.5,2"].join("\t");
+        expect(parse("chr1", 100, 200, rest)).toEqual({
+            chr: "chr1",
+            start: 100,
+            end: 200,
+            name: "gene1",
+            score: 500,
+            strand: "+",
+            thickStart: 100,
+            thickEnd: 200,
+            reserved: 255,
+            blockCount: 2,
+            blockSizes: [10, 20],
+            chromStarts: [0, 80],
+            geneType: "coding",
+            flags: ["a", "c"],
+            scores: [1.5, 2]
+        });
+    });
+
+    it("should leave out missing columns", () => {
+        const parse = parseWithAutoSql(parseAutoSql(bed12AutoSql));
+        expect(parse("chr1", 100, 200, "gene1\t500")).toEqual({ chr: "chr1", start: 100, end: 200, name: "gene1", score: 500 });
+    });
+});
@@ -0,0 +1,47 @@
+import { BigWigReader, BigWigWriter, BigBedWriter, BigBedData, averageOverBed, iterateAverageOverBed } from "../src/";
+import { ArrayBufferDataLoader } from "./testUtils";
+
+const chromSizes = { chr1: 10_000, chr2: 10_000 };
+
+const records: Array<BigBedData> = [
+    { chr: "chr1", start: 0, end: 300, name: "b", score: 0, strand: "+", cdStart: 0, cdEnd: 300, color: "0",
+        exons: [{ start: 0, end: 10 }, { start: 250, end: 300 }] },
+    { chr: "chr1", start: 50, end: 250, name: "a" },
+    { chr: "chr2", start: 0, end: 100, name: "c" }
+];
+
+async function testBigWig(): Promise<BigWigReader> {
+    const file = await new BigWigWriter(chromSizes).write([
+        { chr: "chr1", start: 0, end: 100, value: 1 },
+        { chr: "chr1", start: 200, end: 300, value: 3 }
+    ]);
+    return new BigWigReader(new ArrayBufferDataLoader(file));
+}
+
+describe("averageOverBed", () => {
+    it("should average signal over bed records like bigWigAverageOverBed", async () => {
+        const averages = await averageOverBed(await testBigWig(), [...records, { chr: "chr3", start: 0, end: 10, name: "d" }]);
+        expect(averages).toEqual([
+            { chr: "chr1", start: 0, end: 300, name: "b", size: 60, covered: 60, sum: 160, mean0: 160 / 60, mean: 160 / 60 },
+            { chr: "chr1", start: 50, end: 250, name: "a", size: 200, covered: 100, sum: 200, mean0: 1, mean: 2 },
+            { chr: "chr2", start: 0, end: 100, name: "c", size: 100, covered: 0, sum: 0, mean0: 0, mean: 0 },
+            { chr: "chr3", start: 0, end: 10, name: "d", size: 10, covered: 0, sum: 0, mean0: 0, mean: 0 }
+        ]);
+    });
+
+    it("should read bed records from bigbed files and async iterables", async () => {
+        const reader = await testBigWig();
+        const expected = await averageOverBed(reader, records);
+        const bigBedReader = new BigWigReader(new ArrayBufferDataLoader(await new BigBedWriter(chromSizes).write(records)));
+        expect(await averageOverBed(reader, bigBedReader)).toEqual(expected);
+
+        async function* recordStream() {
+            yield* records;
+        }
+        const iterated = [];
+        for await (const average of iterateAverageOverBed(reader, recordStream())) {
+            iterated.push(average);
+        }
+        expect(iterated).toEqual(expected);
+    });
+});
@@ -0,0 +1,143 @@
+import {
+    BigWigReader, BigBedWriter, BigBedData, BigBedDataNarrowPeak, FileType, parseBigBedNarrowPeak,
+    parseAutoSql, parseWithAutoSql, formatWithAutoSql
+} from "../src/";
+import { ArrayBufferDataLoader } from "./testUtils";
+
+const chromSizes = { "chr1": 1_000_000, "chr2": 500_000 };
+
+const narrowPeakAutoSql = `table narrowPeak
+"BED6+4 Peaks of signal enrichment based on pooled, normalized (interpreted) data."
+(
+    string chrom;        "Reference sequence chromosome or scaffold"
+    uint   chromStart;   "Start position in chromosome"
+    uint   chromEnd;     "End position in chromosome"
+    string name;         "Name given to a region (preferably unique). Use . if no name is assigned"
+    uint   score;        "Indicates how dark the peak will be displayed in the browser (0-1000) "
+    char[1]  strand;     "+ or - or . for unknown"
+    float  signalValue;  "Measurement of average enrichment for the region"
+    float  pValue;       "Statistical significance of signal value (-log10). Set to -1 if not used."
+    float  qValue;       "Statistical significance with multiple-test correction applied (FDR -log10). Set to -1 if not used."
+    int   peak;          "Point-source called for this peak; 0-based offset from chromStart. Set to -1 if no point-source called."
+)`;
+
+function testBedData(): Array<BigBedData> {
+    const data: Array<BigBedData> = [];
+    for (let i = 0; i < 3_000; i++) {
+        const start = i * 200;
+        data.push({
+            chr: "chr1", start, end: start + 150, name: `gene-${i}`, score: i % 1000, strand: i % 2 ? "+" : "-",
+            cdStart: start + 10, cdEnd: start + 140, color: "rgb(255,0,0)",
+            exons: [{ start, end: start + 50 }, { start: start + 100, end: start + 150 }]
+        });
+    }
+    // Overlapping features
+    for (let i = 0; i < 100; i++) {
+        data.push({ chr: "chr2", start: 1_000 + i * 10, end: 1_500 + i * 10, name: `peak-${i % 10}` });
+    }
+    return data;
+}
+
+describe("BigBedWriter", () => {
+    it("should write bed data that reads back the same", async () => {
+        const data = testBedData();
+        const file = await new BigBedWriter(chromSizes).write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+
+        const header = await reader.getHeader();
+        expect(header.fileType).toBe(FileType.BigBed);
+        expect(header.common!.fieldCount).toBe(12);
+        expect(header.common!.definedFieldCount).toBe(12);
+        expect(header.chromTree!.chromSize).toEqual(chromSizes);
+        expect((await reader.getAutoSql())!.fields.length).toBe(12);
+        expect(await reader.readBigBedData("chr1", 0, "chr2", 500_000)).toEqual(data);
+    });
+
+    it("should write data with an autoSql definition", async () => {
+        const data: Array<BigBedDataNarrowPeak> = [];
+        for (let i = 0; i < 500; i++) {
+            data.push({ chr: "chr2", start: i * 100, end: i * 100 + 20, name: `p${i}`, score: 1000, strand: ".",
+                signalValue: i, pValue: -1, qValue: i % 5, peak: 10 });
+        }
+        const schema = parseAutoSql(narrowPeakAutoSql);
+        const file = await new BigBedWriter(chromSizes, narrowPeakAutoSql).write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+
+        const header = await reader.getHeader();
+        expect(header.common!.fieldCount).toBe(10);
+        expect(header.common!.definedFieldCount).toBe(6);
+        expect(await reader.getAutoSql()).toEqual(schema);
+        expect(await reader.readBigBedData("chr2", 0, "chr2", 500_000, parseBigBedNarrowPeak)).toEqual(data);
+        expect(await reader.readBigBedData("chr2", 0, "chr2", 500_000, parseWithAutoSql(schema))).toEqual(data);
+    });
+
+    it("should write data with a custom formatter", async () => {
+        const data = [{ chr: "chr1", start: 5, end: 10, tags: ["a", "b"] }];
+        const autoSql = `table tagged "Tagged regions" (string chrom; ""  uint chromStart; "" uint chromEnd; "" string[2] tags; "")`;
+        const file = await new BigBedWriter(chromSizes, autoSql).write(data, formatWithAutoSql(parseAutoSql(autoSql)));
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        expect(await reader.readBigBedData("chr1", 0, "chr1", 100, (chr, start, end, rest) => rest)).toEqual(["a,b,"]);
+    });
+
+    it("should write coverage depth to the total summary and zoom levels", async () => {
+        const data = testBedData();
+        const file = await new BigBedWriter(chromSizes).write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        const header = await reader.getHeader();
+
+        const basesCovered = 3_000 * 150 + 1_490;
+        const sumData = data.reduce((sum, d) => sum + d.end - d.start, 0);
+        expect(header.totalSummary!.basesCovered).toBe(basesCovered);
+        expect(header.totalSummary!.sumData).toBe(sumData);
+        expect(header.totalSummary!.minVal).toBe(1);
+        expect(header.totalSummary!.maxVal).toBe(50);
+
+        expect(header.zoomLevelHeaders!.length).toBeGreaterThan(0);
+        for (const zoomLevelHeader of header.zoomLevelHeaders!) {
+            const zoomData = await reader.readZoomData("chr1", 0, "chr2", 500_000, zoomLevelHeader.index);
+            expect(zoomData.reduce((sum, d) => sum + d.validCount, 0)).toBe(basesCovered);
+            expect(zoomData.reduce((sum, d) => sum + d.sumData, 0)).toBe(sumData);
+        }
+    });
+
+    it("should write extra indices that can be searched", async () => {
+        const data = testBedData();
+        const file = await new BigBedWriter(chromSizes, undefined, { extraIndices: ["name"], blockSize: 4, itemsPerSlot: 16 })
+            .write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+
+        const header = await reader.getHeader();
+        expect(header.extHeader!.extraIndexCount).toBe(1);
+        expect(header.extHeader!.extraIndices[0].fieldId).toBe(3);
+        expect(await reader.searchBigBedByField("name", "gene-1234")).toEqual(data.filter((d) => d.name === "gene-1234"));
+        const peaks = await reader.searchBigBedByField("name", "peak-3", (chr, start, end, rest) => ({ chr, start, end }));
+        expect(peaks).toEqual(data.filter((d) => d.name === "peak-3").map(({ chr, start, end }) => ({ chr, start, end })));
+        expect(await reader.searchBigBedByField("name", "gene-")).toEqual([]);
+    });
+
+    it("should round trip non-ASCII chromosome names, fields and autoSql", async () => {
+        const autoSql = `table named "Régions nommées" (string chrom; "" uint chromStart; "" uint chromEnd; "" string name; "Nom µ")`;
+        const data = [{ chr: "chrÜ_β", start: 10, end: 20, name: "gène-α" }, { chr: "chrÜ_β", start: 30, end: 40, name: "a" }];
+        const file = await new BigBedWriter({ "chrÜ_β": 1_000, "chr1": 1_000 }, autoSql, { extraIndices: ["name"] }).write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        expect((await reader.getAutoSql())!.fields[3].comment).toBe("Nom µ");
+        expect((await reader.getChromosomes()).map((chrom) => chrom.name)).toEqual(["chrÜ_β", "chr1"]);
+        expect(await reader.readBigBedData("chrÜ_β", 0, "chrÜ_β", 1_000)).toEqual(data);
+        expect(await reader.searchBigBedByField("name", "gène-α")).toEqual([data[0]]);
+    });
+
+    it("should write files for assemblies with many contigs", async () => {
+        const scaffoldSizes: { [chrom: string]: number } = {};
+        for (let i = 0; i < 200_000; i++) scaffoldSizes[`scaffold${i}`] = 1_000 + i;
+        const data = [{ chr: "scaffold5", start: 10, end: 20, name: "a" }, { chr: "scaffold199999", start: 0, end: 5, name: "b" }];
+        const file = await new BigBedWriter(scaffoldSizes).write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        expect(Object.keys((await reader.getHeader()).chromTree!.chromSize).length).toBe(200_000);
+        expect(await reader.readBigBedData("scaffold199999", 0, "scaffold199999", 100)).toEqual([data[1]]);
+    });
+
+    it("should reject unknown extra index fields", async () => {
+        const writer = new BigBedWriter(chromSizes, undefined, { extraIndices: ["thickStart"] });
+        await expect(writer.write([{ chr: "chr1", start: 0, end: 10, name: "a" }])).rejects.toThrow("thickStart");
+    });
+});
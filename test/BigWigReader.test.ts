@@ -1,8 +1,10 @@
 import Axios from "axios";
-import { AxiosDataLoader, BigWigReader, HeaderData, BigWigData } from "../src/";
+import { AxiosDataLoader, BigWigReader, BigWigWriter, BigBedWriter, HeaderData, BigWigData, BigBedData, BigZoomData, parseWithAutoSql,
+    AbortError, BlockCache } from "../src/";
+import { DataMissingError } from "../src/loader/DataLoader";
 import { parseBigBed } from "../src/bigwig/BigWigReader";
 import { parseBigBedBroadPeak, parseBigBedIdrPeak, parseBigBedMethyl, parseBigBedNarrowPeak, parseBigBedTssPeak  } from "../src/bigwig/encodeBigBed";
-import { streamToArray } from "./testUtils";
+import { streamToArray, CountingDataLoader, ArrayBufferDataLoader, TestAbortController, writeTestBigWig } from "./testUtils";
 
 const testBWFilename = "testbw.bigwig";
 const testBWFixedStepName = "test.fixedstep.bigwig";
@@ -64,6 +66,296 @@ describe("BigWigReader", () => {
         });
     });
     
+    it("should only load stream data as it is read", async () => {
+        const { wigData, file } = await writeTestBigWig();
+        const loader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        // A tiny buffer means every data block is a separate load.
+        const reader = new BigWigReader(loader, 1);
+        await reader.getHeader();
+        const headerLoads = loader.loads.length;
+
+        expect(await streamToArray(await reader.streamBigWigData("chr1", 0, "chr1", 100_000))).toEqual(wigData);
+        const allLoads = loader.loads.length - headerLoads;
+
+        loader.loads.length = 0;
+        const stream = await reader.streamBigWigData("chr1", 0, "chr1", 100_000);
+        expect(loader.loads.length).toBe(0);
+        await new Promise((resolve) => stream.once("readable", resolve));
+        expect(stream.read()).toEqual(wigData[0]);
+        const partialLoads = loader.loads.length;
+        expect(partialLoads).toBeLessThan(allLoads / 10);
+
+        stream.destroy();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(loader.loads.length).toBe(partialLoads);
+    });
+
+    it("should cache R+ tree nodes between reads", async () => {
+        const { wigData, file } = await writeTestBigWig({ blockSize: 4 });
+        const loader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        const reader = new BigWigReader(loader, 1);
+        const header = await reader.getHeader();
+        const treeLoads = () => loader.loads.filter((l) => l.start >= header.common!.fullIndexOffset).length;
+
+        loader.loads.length = 0;
+        expect(await reader.readBigWigData("chr1", 1_000, "chr1", 2_000)).toEqual(wigData.slice(100, 200));
+        expect(treeLoads()).toBeGreaterThan(0);
+        const firstStats = reader.getCacheStats().nodes;
+        expect(firstStats.entries).toBeGreaterThan(1);
+        expect(firstStats.hits).toBe(0);
+
+        // Repeated reads only load data blocks.
+        loader.loads.length = 0;
+        expect(await reader.readBigWigData("chr1", 1_000, "chr1", 2_000)).toEqual(wigData.slice(100, 200));
+        expect(treeLoads()).toBe(0);
+        expect(loader.loads.length).toBeGreaterThan(0);
+        expect(reader.getCacheStats().nodes.hits).toBe(firstStats.entries);
+
+        reader.clearCache();
+        expect(reader.getCacheStats().nodes).toEqual({ entries: 0, bytes: 0, maxBytes: 4 * 1024 * 1024, hits: 0, misses: 0, evictions: 0 });
+        loader.loads.length = 0;
+        await reader.readBigWigData("chr1", 1_000, "chr1", 2_000);
+        expect(treeLoads()).toBeGreaterThan(0);
+
+        // Nodes are not kept when the cache is disabled.
+        const uncachedLoader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        const uncachedReader = new BigWigReader(uncachedLoader, 1, { nodeCacheSize: 0 });
+        await uncachedReader.readBigWigData("chr1", 1_000, "chr1", 2_000);
+        uncachedLoader.loads.length = 0;
+        await uncachedReader.readBigWigData("chr1", 1_000, "chr1", 2_000);
+        expect(uncachedLoader.loads.some((l) => l.start >= header.common!.fullIndexOffset)).toBe(true);
+        expect(uncachedReader.getCacheStats().nodes.entries).toBe(0);
+    });
+
+    it("should share cached data blocks between readers", async () => {
+        const { wigData, file } = await writeTestBigWig();
+        const blockCache = new BlockCache();
+        const loader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        const reader = new BigWigReader(loader, 1, { blockCache });
+        const header = await reader.getHeader();
+        const dataLoads = () => loader.loads.filter((l) => l.start >= header.common!.fullDataOffset &&
+            l.start < header.common!.fullIndexOffset).length;
+
+        expect(await reader.readBigWigData("chr1", 1_000, "chr1", 2_000)).toEqual(wigData.slice(100, 200));
+        expect(dataLoads()).toBeGreaterThan(0);
+        const blocksRead = blockCache.stats.entries;
+        expect(blocksRead).toBeGreaterThan(1);
+
+        // Overlapping reads from any reader for the file only load blocks that weren't read before.
+        const otherLoader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        const otherReader = new BigWigReader(otherLoader, 1, { blockCache });
+        expect(await otherReader.readBigWigData("chr1", 1_500, "chr1", 1_800)).toEqual(wigData.slice(150, 180));
+        expect(await otherReader.readBigWigDataForRegions([{ chr: "chr1", start: 1_000, end: 2_000 }]))
+            .toEqual([wigData.slice(100, 200)]);
+        expect(otherLoader.loads.filter((l) => l.start >= header.common!.fullDataOffset &&
+            l.start < header.common!.fullIndexOffset).length).toBe(0);
+        expect(otherReader.getCacheStats().blocks!.hits).toBeGreaterThan(0);
+
+        loader.loads.length = 0;
+        expect(await reader.readBigWigDataForRegions([{ chr: "chr1", start: 1_500, end: 3_000 }]))
+            .toEqual([wigData.slice(150, 300)]);
+        expect(dataLoads()).toBe(1);
+        expect(blockCache.stats.entries).toBeGreaterThan(blocksRead);
+        expect(new BigWigReader(loader).getCacheStats().blocks).toBeUndefined();
+    });
+
+    it("should fetch coalesced data blocks concurrently", async () => {
+        const { wigData, file } = await writeTestBigWig();
+        // Regions in every 20th block, with the blocks in between left out.
+        const regions = Array.from({ length: 10 }, (_, i) => ({ chr: "chr1", start: i * 2_000 + 10, end: i * 2_000 + 50 }));
+        const expected = regions.map((region) => wigData.slice(region.start / 10, region.end / 10));
+
+        const loader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        const reader = new BigWigReader(loader, 1, { coalesceGap: 0, maxConcurrentFetches: 2 });
+        const header = await reader.getHeader();
+        const dataLoads = () => loader.loads.filter((l) => l.start >= header.common!.fullDataOffset &&
+            l.start < header.common!.fullIndexOffset).length;
+        loader.maxInFlight = 0;
+        expect(await reader.readBigWigDataForRegions(regions)).toEqual(expected);
+        expect(dataLoads()).toBe(regions.length);
+        expect(loader.maxInFlight).toBe(2);
+
+        // Neighbouring blocks are always fetched together, and results stay in genomic order.
+        loader.loads.length = 0;
+        expect(await reader.readBigWigData("chr1", 0, "chr1", 100_000)).toEqual(wigData);
+        expect(dataLoads()).toBe(1);
+
+        // Blocks close enough together are fetched with one request.
+        const coalescingLoader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        const coalescingReader = new BigWigReader(coalescingLoader, 1, { coalesceGap: 100_000 });
+        await coalescingReader.getHeader();
+        coalescingLoader.loads.length = 0;
+        expect(await coalescingReader.readBigWigDataForRegions(regions)).toEqual(expected);
+        expect(coalescingLoader.loads.filter((l) => l.start >= header.common!.fullDataOffset &&
+            l.start < header.common!.fullIndexOffset).length).toBe(1);
+    });
+
+    it("should fetch each block once for concurrent reads sharing a block cache", async () => {
+        const { wigData, file } = await writeTestBigWig();
+        const regions = Array.from({ length: 10 }, (_, i) => ({ chr: "chr1", start: i * 2_000 + 10, end: i * 2_000 + 50 }));
+        const expected = regions.map((region) => wigData.slice(region.start / 10, region.end / 10));
+
+        const blockCache = new BlockCache();
+        const loader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        const readers = [new BigWigReader(loader, 1, { blockCache, coalesceGap: 0 }),
+            new BigWigReader(loader, 1, { blockCache, coalesceGap: 0 })];
+        const header = await readers[0].getHeader();
+        await readers[1].getHeader();
+        const dataLoads = () => loader.loads.filter((l) => l.start >= header.common!.fullDataOffset &&
+            l.start < header.common!.fullIndexOffset).length;
+        loader.loads.length = 0;
+        expect(await Promise.all([
+            readers[0].readBigWigDataForRegions(regions),
+            readers[1].readBigWigDataForRegions(regions),
+            readers[1].readBigWigData("chr1", 10, "chr1", 50)
+        ])).toEqual([expected, expected, expected[0]]);
+        expect(dataLoads()).toBe(regions.length);
+        expect(blockCache.stats.entries).toBe(regions.length);
+
+        // Blocks that fail to load are dropped from the cache, so the next read tries again.
+        let failNextLoad = true;
+        const failingReader = new BigWigReader({
+            load: (start: number, size?: number) => {
+                if (failNextLoad && start >= header.common!.fullDataOffset && start < header.common!.fullIndexOffset) {
+                    failNextLoad = false;
+                    return Promise.reject(new Error("Load failed"));
+                }
+                return loader.load(start, size);
+            }
+        }, 1, { blockCache });
+        await expect(failingReader.readBigWigData("chr1", 5_010, "chr1", 5_050)).rejects.toThrow("Load failed");
+        expect(blockCache.stats.entries).toBe(regions.length);
+        expect(await failingReader.readBigWigData("chr1", 5_010, "chr1", 5_050)).toEqual(wigData.slice(501, 505));
+        expect(blockCache.stats.entries).toBe(regions.length + 1);
+    });
+
+    it("should not fail other readers' reads of shared blocks when one read is cancelled", async () => {
+        const { wigData, file } = await writeTestBigWig();
+        const fileLoader = new ArrayBufferDataLoader(file);
+        const blockCache = new BlockCache();
+        const otherReader = new BigWigReader(fileLoader, 1, { blockCache });
+        const header = await otherReader.getHeader();
+        // Data loads of the cancelled reader never finish, they only fail once it's cancelled.
+        let dataLoadStarted: () => void;
+        const dataLoading = new Promise<void>((resolve) => dataLoadStarted = resolve);
+        const cancelledReader = new BigWigReader({
+            load: (start: number, size?: number, signal?: AbortSignal) => {
+                if (start < header.common!.fullDataOffset || start >= header.common!.fullIndexOffset) return fileLoader.load(start, size);
+                dataLoadStarted();
+                return new Promise((resolve, reject) => signal!.addEventListener("abort", () => reject(new AbortError())));
+            }
+        }, 1, { blockCache });
+        await cancelledReader.getHeader();
+
+        // Reads are only cancelled once they're waiting for the blocks the cancelled reader is loading.
+        let lookedUp: () => void = () => {};
+        const nextLookup = () => new Promise<void>((resolve) => lookedUp = resolve);
+        const get = blockCache.get.bind(blockCache);
+        jest.spyOn(blockCache, "get").mockImplementation((dataOffset, dataSize) => {
+            lookedUp();
+            return get(dataOffset, dataSize);
+        });
+
+        const controller = new TestAbortController();
+        const cancelledRead = cancelledReader.readBigWigData("chr1", 1_000, "chr1", 2_000, controller.signal);
+        await dataLoading;
+        let lookup = nextLookup();
+        const otherRead = otherReader.readBigWigData("chr1", 1_000, "chr1", 2_000);
+        await lookup;
+        // Reads waiting for a shared block stop as soon as they're cancelled themselves.
+        const waitingController = new TestAbortController();
+        lookup = nextLookup();
+        const waitingRead = otherReader.iterateBigWigData("chr1", 1_000, "chr1", 2_000, waitingController.signal).next();
+        await lookup;
+        waitingController.abort();
+        await expect(waitingRead).rejects.toBeInstanceOf(AbortError);
+
+        controller.abort();
+        await expect(cancelledRead).rejects.toBeInstanceOf(AbortError);
+        expect(await otherRead).toEqual(wigData.slice(100, 200));
+        expect(await otherReader.readBigWigData("chr1", 1_000, "chr1", 2_000)).toEqual(wigData.slice(100, 200));
+    });
+
+    it("should iterate over bigwig, bigbed and zoom data", async () => {
+        const bwLoader = new CountingDataLoader(new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create()));
+        const bwReader = new BigWigReader(bwLoader);
+        await bwReader.getHeader();
+        const headerLoads = bwLoader.loads.length;
+        const wigIterator = bwReader.iterateBigWigData("chr14", 19_485_000, "chr14", 20_000_100);
+        expect(bwLoader.loads.length).toBe(headerLoads);
+        const wigData: Array<BigWigData> = [];
+        for await (const d of wigIterator) {
+            wigData.push(d);
+        }
+        expect(wigData).toEqual(await bwReader.readBigWigData("chr14", 19_485_000, "chr14", 20_000_100));
+        expect(wigData.length).toBeGreaterThan(0);
+
+        const bbReader = new BigWigReader(new AxiosDataLoader(`http://localhost:8001/${testBBFilename}`, Axios.create()));
+        const bedData = [], names = [], zoomData = [];
+        for await (const d of bbReader.iterateBigBedData("chr21", 10_000_000, "chr21", 20_000_000)) {
+            bedData.push(d);
+        }
+        for await (const name of bbReader.iterateBigBedData("chr21", 10_000_000, "chr21", 20_000_000, (chr, start, end, rest) => rest.split("\t")[0])) {
+            names.push(name);
+        }
+        for await (const d of bbReader.iterateZoomData("chr21", 10_000_000, "chr21", 20_000_000, 3)) {
+            zoomData.push(d);
+        }
+        expect(bedData).toEqual(await bbReader.readBigBedData("chr21", 10_000_000, "chr21", 20_000_000));
+        expect(names).toEqual(bedData.map((d) => d.name));
+        expect(zoomData).toEqual(await bbReader.readZoomData("chr21", 10_000_000, "chr21", 20_000_000, 3));
+        await expect(bbReader.iterateZoomData("chr21", 0, "chr21", 10, 99).next()).rejects.toThrow("zoomLevelIndex");
+    });
+
+    it("should cancel reads with an AbortSignal", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        const controller = new TestAbortController();
+        const read = reader.readBigWigData("chr14", 19_485_000, "chr14", 20_000_100, controller.signal);
+        controller.abort();
+        await expect(read).rejects.toBeInstanceOf(AbortError);
+        await expect(reader.readBigWigSummary("chr14", 19_485_000, 20_000_100, 10, {}, controller.signal))
+            .rejects.toBeInstanceOf(AbortError);
+        await expect(reader.iterateBigWigData("chr14", 19_485_000, "chr14", 20_000_100, controller.signal).next())
+            .rejects.toBeInstanceOf(AbortError);
+
+        // Reads without the aborted signal are unaffected.
+        expect((await reader.readBigWigData("chr14", 19_485_000, "chr14", 20_000_100)).length).toBeGreaterThan(0);
+
+        const streamController = new TestAbortController();
+        const stream = await reader.streamBigWigData("chr14", 19_485_000, "chr14", 20_000_100, streamController.signal);
+        const streamError = new Promise((resolve) => stream.once("error", resolve));
+        streamController.abort();
+        expect(await streamError).toBeInstanceOf(AbortError);
+    });
+
+    it("should pass the AbortSignal to header and chromosome tree loads", async () => {
+        const { wigData, file } = await writeTestBigWig();
+        const fileLoader = new ArrayBufferDataLoader(file);
+        let unsignalledLoads = 0;
+        const loader = {
+            load: (start: number, size?: number, signal?: AbortSignal) => {
+                if (signal === undefined) unsignalledLoads++;
+                return fileLoader.load(start, size);
+            },
+            loadStream: (start: number, size?: number, signal?: AbortSignal) => {
+                if (signal === undefined) unsignalledLoads++;
+                return fileLoader.loadStream(start, size);
+            }
+        };
+        const { signal } = new TestAbortController();
+        // Each read is the first on its reader, so it has to load the header itself.
+        const newReader = () => new BigWigReader(loader, 1);
+        expect(await newReader().readBigWigData("chr1", 0, "chr1", 100, signal)).toEqual(wigData.slice(0, 10));
+        expect((await newReader().readBigWigDataAsArray("chr1", 0, 100, {}, signal)).length).toBe(100);
+        expect(await newReader().readBigWigDataForRegions([{ chr: "chr1", start: 0, end: 100 }], signal)).toEqual([wigData.slice(0, 10)]);
+        expect((await newReader().iterateBigWigData("chr1", 0, "chr1", 100, signal).next()).value).toEqual(wigData[0]);
+        expect(await streamToArray(await newReader().streamBigWigData("chr1", 0, "chr1", 100, signal))).toEqual(wigData.slice(0, 10));
+        expect(await newReader().fileType(signal)).toBe("BigWig");
+        expect(await newReader().getAutoSql(signal)).toBeUndefined();
+        expect(unsignalledLoads).toBe(0);
+    });
+
     it("should read more unzoomed bigwig data", async() => {
         const loader = new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create());
         const reader = new BigWigReader(loader);
@@ -98,6 +390,251 @@ describe("BigWigReader", () => {
         });
     });
 
+    it("should read bigwig summary data from zoom levels", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        const max = await reader.readBigWigSummary("chr14", 19_485_000, 20_000_100, 4, { stat: "max" });
+        expect(max).toEqual([1963, NaN, NaN, NaN]);
+        const mean = await reader.readBigWigSummary("chr14", 19_485_000, 20_000_100, 4);
+        expect(mean[0]).toBeCloseTo(734.369);
+        expect(mean.slice(1)).toEqual([NaN, NaN, NaN]);
+    });
+
+    it("should read bigwig summary data from unzoomed data for small bins", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        const max = await reader.readBigWigSummary("chr14", 19_485_960, 19_486_040, 8, { stat: "max" });
+        expect(max).toEqual([1, 682, 682, 682, 682, 682, 1959, 1963]);
+        const coverage = await reader.readBigWigSummary("chr14", 19_485_960, 19_486_040, 8, { stat: "coverage" });
+        expect(coverage).toEqual([0.1, 0.9, 1, 1, 1, 1, 1, 1]);
+    });
+
+    it("should get region stats for bigwig data", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        const raw = await reader.readBigWigData("chr14", 19_485_000, "chr14", 20_000_100);
+        const rawSum = raw.reduce((sum, d) => sum + d.value * (d.end - d.start), 0);
+        const rawCovered = raw.reduce((sum, d) => sum + d.end - d.start, 0);
+
+        const stats = await reader.getRegionStats("chr14", 19_485_000, 20_000_100);
+        expect(stats.basesCovered).toBe(rawCovered);
+        expect(stats.sum).toBe(rawSum);
+        expect(stats.mean).toBeCloseTo(rawSum / rawCovered);
+        expect(stats.min).toBe(Math.min(...raw.map((d) => d.value)));
+        expect(stats.max).toBe(Math.max(...raw.map((d) => d.value)));
+        expect(stats.coverage).toBeCloseTo(rawCovered / 515_100);
+    });
+
+    it("should weight bigwig region stats by overlapped bases at the edges", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        // The first record covers 19,485,969-19,485,974 with value 1, the last 19,486,030-19,486,034 with value 1963.
+        const stats = await reader.getRegionStats("chr14", 19_485_972, 19_486_032);
+        const raw = await reader.readBigWigData("chr14", 19_485_972, "chr14", 19_486_032);
+        const overlap = (d: BigWigData) => Math.min(d.end, 19_486_032) - Math.max(d.start, 19_485_972);
+        expect(stats.basesCovered).toBe(raw.reduce((sum, d) => sum + overlap(d), 0));
+        expect(stats.sum).toBe(raw.reduce((sum, d) => sum + d.value * overlap(d), 0));
+        expect(stats.min).toBe(1);
+        expect(stats.max).toBe(1963);
+    });
+
+    it("should read bigwig data into dense arrays", async () => {
+        const wigData: Array<BigWigData> = [];
+        for (let i = 0; i < 100; i++) {
+            // Fixed step on chr1, variable step on chr2 and bed graph on chr3
+            wigData.push({ chr: "chr1", start: i * 10, end: i * 10 + 5, value: i });
+        }
+        for (let i = 0; i < 100; i++) {
+            wigData.push({ chr: "chr2", start: i * i, end: i * i + 1, value: -i });
+        }
+        for (let i = 0; i < 100; i++) {
+            wigData.push({ chr: "chr3", start: i * 10, end: i * 10 + 1 + i % 7, value: i / 4 });
+        }
+        const file = await new BigWigWriter({ chr1: 10_000, chr2: 10_000, chr3: 10_000 }).write(wigData);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+
+        for (const chr of ["chr1", "chr2", "chr3"]) {
+            const expected = new Float32Array(1_000).fill(NaN);
+            for (const d of await reader.readBigWigData(chr, 3, chr, 1_003)) {
+                for (let base = Math.max(d.start, 3); base < Math.min(d.end, 1_003); base++) expected[base - 3] = d.value;
+            }
+            expect(await reader.readBigWigDataAsArray(chr, 3, 1_003)).toEqual(expected);
+        }
+
+        // Bins of 10 bases over chr1 hold one value over bases 0-4 each.
+        const binned = await reader.readBigWigDataAsArray("chr1", 0, 1_005, { binSize: 10 });
+        expect(binned.length).toBe(101);
+        expect(Array.from(binned.subarray(0, 100))).toEqual(wigData.slice(0, 100).map((d) => d.value));
+        expect(binned[100]).toBeNaN();
+        const sums = await reader.readBigWigDataAsArray("chr1", 2, 42, { binSize: 20, reducer: "sum", fill: 0 });
+        expect(Array.from(sums)).toEqual([0 * 3 + 1 * 5 + 2 * 2, 2 * 3 + 3 * 5 + 4 * 2]);
+        expect(Array.from(await reader.readBigWigDataAsArray("chr3", 0, 40, { binSize: 20, reducer: "max" })))
+            .toEqual([0.25, 0.75]);
+        expect(Array.from(await reader.readBigWigDataAsArray("chr2", 0, 10, { binSize: 5, reducer: "min", fill: 0 })))
+            .toEqual([-2, -3]);
+        expect(Array.from(await reader.readBigWigDataAsArray("chr2", 10_000, 10_020, { binSize: 10, fill: 0 }))).toEqual([0, 0]);
+        await expect(reader.readBigWigDataAsArray("chr1", 0, 10, { binSize: 0 })).rejects.toThrow("binSize");
+    });
+
+    it("should iterate over all data in a file", async () => {
+        const chromSizes = { chr1: 10_000, chr2: 20_000, chr3: 30_000 };
+        const wigData: Array<BigWigData> = [];
+        for (const chr of ["chr1", "chr2", "chr3"]) {
+            for (let i = 0; i < 500; i++) wigData.push({ chr, start: i * 10, end: i * 10 + 5, value: i });
+        }
+        const reader = new BigWigReader(new ArrayBufferDataLoader(await new BigWigWriter(chromSizes).write(wigData)));
+        expect(await reader.getChromosomes()).toEqual([
+            { name: "chr1", id: 0, size: 10_000 },
+            { name: "chr2", id: 1, size: 20_000 },
+            { name: "chr3", id: 2, size: 30_000 }
+        ]);
+
+        const all: Array<BigWigData | BigBedData> = [];
+        for await (const d of reader.iterateAll()) all.push(d);
+        expect(all).toEqual(wigData);
+        const someChroms: Array<BigWigData | BigBedData> = [];
+        for await (const d of reader.iterateAll({ chroms: ["chr3", "chr1"] })) someChroms.push(d);
+        expect(someChroms).toEqual(wigData.filter((d) => d.chr !== "chr2"));
+        const zoomData: Array<BigZoomData> = [];
+        for await (const d of reader.iterateAll({ zoomLevelIndex: 0 })) zoomData.push(d);
+        expect(zoomData).toEqual(await reader.readZoomData("chr1", 0, "chr3", 30_000, 0));
+        await expect(reader.iterateAll({ chroms: ["chr4"] }).next()).rejects.toBeInstanceOf(DataMissingError);
+
+        const bedData: Array<BigBedData> = wigData.map((d) => ({ chr: d.chr, start: d.start, end: d.end, name: `${d.value}` }));
+        const bbReader = new BigWigReader(new ArrayBufferDataLoader(await new BigBedWriter(chromSizes).write(bedData)));
+        const allBed: Array<BigWigData | BigBedData> = [];
+        for await (const d of bbReader.iterateAll({ chroms: ["chr2"] })) allBed.push(d);
+        expect(allBed).toEqual(await bbReader.readBigBedData("chr2", 0, "chr2", 20_000));
+        expect(allBed.length).toBe(500);
+    });
+
+    it("should filter and limit bigbed data before parsing", async () => {
+        const bedData: Array<BigBedData> = [];
+        for (let i = 0; i < 1_000; i++) {
+            bedData.push({ chr: "chr1", start: i * 10, end: i * 10 + 5, name: `peak${i}`, score: i % 1_000, strand: i % 2 ? "-" : "+" });
+        }
+        const file = await new BigBedWriter({ chr1: 100_000 }, undefined, { itemsPerSlot: 10 }).write(bedData);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+
+        let parsed = 0;
+        const countingParser = (chrom: string, start: number, end: number, rest: string) => {
+            parsed++;
+            return parseBigBed(chrom, start, end, rest);
+        };
+        const minusStrand = await reader.readBigBedData("chr1", 0, "chr1", 100_000, {
+            restParser: countingParser,
+            filter: (chrom, start, end, rest) => rest.split("\t")[2] === "-"
+        });
+        expect(minusStrand).toEqual(bedData.filter((d) => d.strand === "-"));
+        expect(parsed).toBe(500);
+
+        // Only the blocks up to the one with the last match are fetched.
+        const loader = new CountingDataLoader(new ArrayBufferDataLoader(file));
+        const limitedReader = new BigWigReader(loader, 1);
+        await limitedReader.getHeader();
+        const headerLoads = loader.loads.length;
+        const topPeaks = await limitedReader.readBigBedData("chr1", 0, "chr1", 100_000, {
+            filter: (chrom, start, end, rest) => parseFloat(rest.split("\t")[1]) >= 500,
+            limit: 5
+        });
+        expect(topPeaks.map((d) => d.name)).toEqual(["peak500", "peak501", "peak502", "peak503", "peak504"]);
+        const limitedLoads = loader.loads.length - headerLoads;
+        await limitedReader.readBigBedData("chr1", 0, "chr1", 100_000, { limit: 1_000 });
+        expect(limitedLoads).toBeLessThan(loader.loads.length - headerLoads - limitedLoads);
+
+        const streamed = await streamToArray<BigBedData>(await reader.streamBigBedData("chr1", 0, "chr1", 100_000, { limit: 15 }));
+        expect(streamed).toEqual(bedData.slice(0, 15));
+        const names: Array<string> = [];
+        for await (const name of reader.iterateBigBedData("chr1", 0, "chr1", 100_000, {
+            restParser: (chrom, start, end, rest) => rest.split("\t")[0],
+            filter: (chrom, start) => start >= 5_000,
+            limit: 2
+        })) {
+            names.push(name);
+        }
+        expect(names).toEqual(["peak500", "peak501"]);
+        expect(await reader.readBigBedData("chr1", 0, "chr1", 100_000, { limit: 0 })).toEqual([]);
+        await expect(reader.readBigBedData("chr1", 0, "chr1", 100_000, { limit: -1 })).rejects.toThrow("limit");
+    });
+
+    it("should find the nearest bigbed features", async () => {
+        const bedData: Array<BigBedData> = [];
+        for (let i = 0; i < 1_000; i++) {
+            bedData.push({ chr: "chr1", start: i * 100, end: i * 100 + 10, name: `gene${i}`, score: 0, strand: i % 2 ? "-" : "+" });
+        }
+        const file = await new BigBedWriter({ chr1: 200_000, chr2: 1_000 }, undefined, { itemsPerSlot: 10 }).write(bedData);
+        const blockCache = new BlockCache();
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file), undefined, { blockCache });
+        const nearest = async (pos: number, options = {}) =>
+            (await reader.findNearest("chr1", pos, options)).map((d) => [d.feature.name, d.distance]);
+
+        expect(await nearest(5_050)).toEqual([["gene50", -41]]);
+        // Only the block holding the position was needed.
+        expect(blockCache.stats.entries).toBe(1);
+        expect(await nearest(5_005)).toEqual([["gene50", 0]]);
+        expect(await nearest(5_050, { k: 3 })).toEqual([["gene50", -41], ["gene51", 50], ["gene49", -141]]);
+        expect(await nearest(5_050, { k: 2, direction: "up" })).toEqual([["gene50", -41], ["gene49", -141]]);
+        expect(await nearest(5_050, { k: 2, direction: "down" })).toEqual([["gene51", 50], ["gene52", 150]]);
+        expect(await nearest(5_050, { k: 2, strand: "-" })).toEqual([["gene51", 50], ["gene49", -141]]);
+        // Features across block boundaries
+        expect(await nearest(5_990, { k: 2 })).toEqual([["gene60", 10], ["gene59", -81]]);
+        expect(await nearest(150_000, { k: 1 })).toEqual([["gene999", 99_909 - 150_000]]);
+        expect(await nearest(0, { k: 2, direction: "up" })).toEqual([["gene0", 0]]);
+
+        const names = await reader.findNearest("chr1", 5_050, { k: 1, restParser: (chrom, start, end, rest) => rest.split("\t")[0] });
+        expect(names).toEqual([{ feature: "gene50", distance: -41 }]);
+        expect(await reader.findNearest("chr2", 500)).toEqual([]);
+        await expect(reader.findNearest("chr3", 500)).rejects.toBeInstanceOf(DataMissingError);
+        await expect(reader.findNearest("chr1", 500, { k: 0 })).rejects.toThrow("k must be");
+    });
+
+    it("should find the nearest bigbed features by the strand column in the autoSql", async () => {
+        const strandedAutoSql = `table stranded "Regions with the strand after a tag" (string chrom; "" uint chromStart; ""
+            uint chromEnd; "" string tag; "" char[1] strand; "")`;
+        const file = await new BigBedWriter({ chr1: 1_000 }, strandedAutoSql).write([
+            { chr: "chr1", start: 100, end: 110, rest: "a\t+" },
+            { chr: "chr1", start: 200, end: 210, rest: "b\t-" }
+        ], (record) => record.rest);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        const tags = async (strand: string) => (await reader.findNearest("chr1", 150, {
+            strand, restParser: (chrom, start, end, rest) => rest.split("\t")[0]
+        })).map((d) => d.feature);
+        expect(await tags("+")).toEqual(["a"]);
+        expect(await tags("-")).toEqual(["b"]);
+
+        const unstrandedFile = await new BigBedWriter({ chr1: 1_000 }).write([{ chr: "chr1", start: 100, end: 110, name: "a" }]);
+        const unstrandedReader = new BigWigReader(new ArrayBufferDataLoader(unstrandedFile));
+        await expect(unstrandedReader.findNearest("chr1", 150, { strand: "+" })).rejects.toThrow("no strand field");
+        expect(await unstrandedReader.findNearest("chr1", 150)).toEqual([{ feature: { chr: "chr1", start: 100, end: 110, name: "a" }, distance: -41 }]);
+    });
+
+    it("should count bigbed features in bins", async () => {
+        const bedData: Array<BigBedData> = [];
+        for (let i = 0; i < 1_000; i++) {
+            bedData.push({ chr: "chr1", start: i * 100, end: i * 100 + 10, name: `peak${i}` });
+        }
+        const file = await new BigBedWriter({ chr1: 100_000 }, undefined, { itemsPerSlot: 10 }).write(bedData);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+
+        // Features overlapping two bins count for both.
+        expect(await reader.countBigBedFeatures("chr1", 5_005, 5_305, 3)).toEqual([2, 2, 2]);
+        expect(await reader.countBigBedFeatures("chr1", 0, 1_000, 100)).toEqual(new Array(100).fill(0).map((count, i) => i % 10 === 0 ? 1 : 0));
+        // Bins ending between bases don't count features starting just after them.
+        const singleFile = await new BigBedWriter({ chr1: 100 }).write([{ chr: "chr1", start: 3, end: 5 }]);
+        const singleReader = new BigWigReader(new ArrayBufferDataLoader(singleFile));
+        expect(await singleReader.countBigBedFeatures("chr1", 0, 10, 3)).toEqual([0, 1, 0]);
+
+        // Large bins use zoom levels, which count bases covered by features rather than features.
+        const header = await reader.getHeader();
+        expect(header.zoomLevelHeaders!.length).toBeGreaterThan(0);
+        const density = await reader.countBigBedFeatures("chr1", 0, 100_000, 10);
+        expect(density.reduce((sum, bases) => sum + bases, 0)).toBeCloseTo(10_000);
+        for (const bases of density) {
+            expect(bases).toBeGreaterThan(800);
+            expect(bases).toBeLessThan(1_200);
+        }
+    });
+
     it("should read unzoomed bigbed data, without parseBigBed provided", async () => {
         const loader = new AxiosDataLoader(`http://localhost:8001/${testBBFilename}`, Axios.create());
         const reader = new BigWigReader(loader);
@@ -158,6 +695,26 @@ describe("BigWigReader", () => {
         expect(data[0].qValue).toBe(2);
     });
 
+    it("should read unzoomed broad peak bigbed data with its autosql", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBBBroadPeakFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        const schema = await reader.getAutoSql();
+        expect(schema!.name).toBe("broadPeak");
+        const data = await reader.readBigBedData("chr1", 11_169_025, "chr1", 11_333_936, parseWithAutoSql(schema!));
+        expect(data.length).toBe(10);
+        expect(data[0]).toEqual({
+            chr: "chr1",
+            start: 11_176_299,
+            end: 11_176_669,
+            name: "id-773",
+            score: 22,
+            strand: ".",
+            SignalValue: -1,
+            pValue: -1,
+            qValue: 2.24737
+        });
+    });
+
     it("should read unzoomed data methyl bigbed data", async () => {
         const loader = new AxiosDataLoader(`http://localhost:8001/${testBBMethylFilename}`, Axios.create());
         const reader = new BigWigReader(loader);
@@ -255,6 +812,95 @@ describe("BigWigReader", () => {
         });
     });
     
+    it("should read bigwig data for many regions at once", async () => {
+        const loader = new CountingDataLoader(new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create()));
+        const reader = new BigWigReader(loader);
+        await reader.getHeader();
+        const regions = [
+            { chr: "chr14", start: 19_485_000, end: 19_486_000 },
+            { chr: "chr14", start: 19_485_500, end: 19_487_000 },
+            { chr: "chr1", start: 0, end: 1_000_000 },
+            { chr: "chr14", start: 20_000_000, end: 20_000_100 }
+        ];
+        const headerLoads = loader.loads.length;
+        const data = await reader.readBigWigDataForRegions(regions);
+        const batchLoads = loader.loads.length - headerLoads;
+
+        expect(data.length).toBe(regions.length);
+        for (let i = 0; i < regions.length; i++) {
+            expect(data[i]).toEqual(await reader.readBigWigData(regions[i].chr, regions[i].start, regions[i].chr, regions[i].end));
+        }
+        expect(data[0].length).toBeGreaterThan(0);
+        // The tree is only read once, and blocks shared by the overlapping chr14 regions are only fetched once.
+        expect(batchLoads).toBeLessThan(regions.length);
+        expect(await reader.readBigWigDataForRegions([])).toEqual([]);
+        await expect(reader.readBigWigDataForRegions([{ chr: "chrNope", start: 0, end: 10 }])).rejects.toThrow("chrNope");
+    });
+
+    it("should read bigbed and zoom data for many regions at once", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBBFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        const regions = [
+            { chr: "chr21", start: 10_000_000, end: 15_000_000 },
+            { chr: "chr21", start: 14_000_000, end: 20_000_000 }
+        ];
+        const bedData = await reader.readBigBedDataForRegions(regions);
+        const namedData = await reader.readBigBedDataForRegions(regions, (chr, start, end, rest) => rest.split("\t")[0]);
+        const zoomData = await reader.readZoomDataForRegions(regions, 3);
+        for (let i = 0; i < regions.length; i++) {
+            const { chr, start, end } = regions[i];
+            expect(bedData[i]).toEqual(await reader.readBigBedData(chr, start, chr, end));
+            expect(namedData[i]).toEqual(bedData[i].map((d) => d.name));
+            expect(zoomData[i]).toEqual(await reader.readZoomData(chr, start, chr, end, 3));
+        }
+        expect(bedData[0].length).toBeGreaterThan(0);
+    });
+
+    it("should read the extension header from bigbed files", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBBBroadPeakFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        const header: HeaderData = await reader.getHeader();
+        expect(header.extHeader).toEqual({
+            extensionSize: 64,
+            extraIndexCount: 0,
+            extraIndexListOffset: 0,
+            extraIndices: []
+        });
+        await expect(reader.searchBigBedByField("name", "id-773")).rejects.toThrow("No extra index found for field name.");
+    });
+
+    it("should read extra indices on more than one field", async () => {
+        const bedData: Array<BigBedData> = [];
+        for (let i = 0; i < 100; i++) {
+            bedData.push({ chr: "chr1", start: i * 100, end: i * 100 + 10, name: `gene${i}`, score: i, strand: "+" });
+        }
+        const file = await new BigBedWriter({ chr1: 100_000 }, undefined, { extraIndices: ["name", "score", "strand"] }).write(bedData);
+        const { common, extHeader } = await new BigWigReader(new ArrayBufferDataLoader(file)).getHeader();
+        // Replace the three single field entries with one on name and strand, then the one on score.
+        const view = new DataView(file);
+        const listOffset = extHeader!.extraIndexListOffset;
+        const [nameIndex, scoreIndex] = extHeader!.extraIndices;
+        view.setUint16(common!.reserved + 2, 2, true);
+        view.setUint16(listOffset + 2, 2, true);
+        view.setUint16(listOffset + 16, 3, true);
+        view.setUint16(listOffset + 20, 5, true);
+        view.setUint16(listOffset + 22, 0, true);
+        view.setUint16(listOffset + 24, 0, true);
+        view.setUint16(listOffset + 26, 1, true);
+        view.setUint32(listOffset + 28, scoreIndex.fileOffset, true);
+        view.setUint32(listOffset + 32, 0, true);
+        view.setUint32(listOffset + 36, 0, true);
+        view.setUint16(listOffset + 40, 4, true);
+
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        expect((await reader.getHeader()).extHeader!.extraIndices).toEqual([
+            { type: 0, fieldCount: 2, fileOffset: nameIndex.fileOffset, fieldId: 3, fieldIds: [3, 5] },
+            { type: 0, fieldCount: 1, fileOffset: scoreIndex.fileOffset, fieldId: 4, fieldIds: [4] }
+        ]);
+        expect(await reader.searchBigBedByField("score", "42")).toEqual([bedData[42]]);
+        await expect(reader.searchBigBedByField("name", "gene42")).rejects.toThrow("No extra index found for field name.");
+    });
+
     it("should handle reading reading R+ trees with multiple layers.", async () => {
         const loader = new AxiosDataLoader(`http://localhost:8001/${testLargeBWFilename}`, Axios.create());
         const reader = new BigWigReader(loader);
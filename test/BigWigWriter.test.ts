@@ -0,0 +1,104 @@
+import Axios from "axios";
+import { AxiosDataLoader, BigWigReader, BigWigWriter, BigWigData, FileType } from "../src/";
+import { ArrayBufferDataLoader } from "./testUtils";
+
+const testBWFilename = "testbw.bigwig";
+
+const chromSizes = { "chr2": 1_000_000, "chr10": 500_000, "chrM": 16_569 };
+
+function testData(): Array<BigWigData> {
+    const data: Array<BigWigData> = [];
+    // Fixed step
+    for (let i = 0; i < 2_000; i++) {
+        data.push({ chr: "chr2", start: 1_000 + i * 50, end: 1_000 + i * 50 + 25, value: i % 7 });
+    }
+    // Variable step
+    for (let i = 0; i < 300; i++) {
+        data.push({ chr: "chr2", start: 200_000 + i * i, end: 200_000 + i * i + 1, value: i / 4 });
+    }
+    // Bed graph
+    for (let i = 0; i < 500; i++) {
+        data.push({ chr: "chr10", start: i * 300, end: i * 300 + 10 + i % 17, value: -i });
+    }
+    data.push({ chr: "chrM", start: 0, end: 16_569, value: 3.5 });
+    return data;
+}
+
+describe("BigWigWriter", () => {
+    it("should write bigwig data that reads back the same", async () => {
+        const data = testData();
+        const file = await new BigWigWriter(chromSizes).write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+
+        const header = await reader.getHeader();
+        expect(header.fileType).toBe(FileType.BigWig);
+        expect(header.common!.bwVersion).toBe(4);
+        expect(header.chromTree!.chromSize).toEqual(chromSizes);
+        expect(await reader.readBigWigData("chr2", 0, "chrM", 16_569)).toEqual(data);
+        expect(await reader.readBigWigData("chr10", 3_000, "chr10", 3_900)).toEqual(
+            data.filter((d) => d.chr === "chr10" && d.end >= 3_000 && d.start < 3_900));
+    });
+
+    it("should write the total summary and zoom levels", async () => {
+        const data = testData();
+        const file = await new BigWigWriter(chromSizes).write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        const header = await reader.getHeader();
+
+        const basesCovered = data.reduce((sum, d) => sum + d.end - d.start, 0);
+        const sumData = data.reduce((sum, d) => sum + (d.end - d.start) * d.value, 0);
+        expect(header.totalSummary!.basesCovered).toBe(basesCovered);
+        expect(header.totalSummary!.sumData).toBeCloseTo(sumData);
+        expect(header.totalSummary!.minVal).toBe(-499);
+        expect(header.totalSummary!.maxVal).toBe(74.75);
+
+        expect(header.zoomLevelHeaders!.length).toBeGreaterThan(1);
+        for (const zoomLevelHeader of header.zoomLevelHeaders!) {
+            const zoomData = await reader.readZoomData("chr2", 0, "chrM", 16_569, zoomLevelHeader.index);
+            expect(zoomData.every((d) => d.end - d.start <= zoomLevelHeader.reductionLevel)).toBe(true);
+            expect(zoomData.reduce((sum, d) => sum + d.validCount, 0)).toBe(basesCovered);
+            expect(zoomData.reduce((sum, d) => sum + d.sumData, 0)).toBeCloseTo(sumData, 0);
+        }
+    });
+
+    it("should write uncompressed bigwig files with multi-level R+ trees", async () => {
+        const data = testData();
+        const file = await new BigWigWriter(chromSizes, { compress: false, blockSize: 4, itemsPerSlot: 16 }).write(data);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        expect((await reader.getHeader()).common!.uncompressBuffSize).toBe(0);
+        expect(await reader.readBigWigData("chr2", 0, "chrM", 16_569)).toEqual(data);
+        expect(await reader.readBigWigData("chr2", 201_000, "chr2", 202_000)).toEqual(
+            data.filter((d) => d.chr === "chr2" && d.end >= 201_000 && d.start < 202_000));
+    });
+
+    it("should reject unsorted data", async () => {
+        const writer = new BigWigWriter(chromSizes);
+        await expect(writer.write([
+            { chr: "chr2", start: 100, end: 200, value: 1 },
+            { chr: "chr2", start: 50, end: 60, value: 1 }
+        ])).rejects.toThrow("Data is not sorted");
+        await expect(writer.write([
+            { chr: "chr2", start: 100, end: 200, value: 1 },
+            { chr: "chr10", start: 50, end: 60, value: 1 },
+            { chr: "chr2", start: 300, end: 400, value: 1 }
+        ])).rejects.toThrow("Data is not sorted");
+        await expect(writer.write([{ chr: "chr3", start: 100, end: 200, value: 1 }])).rejects.toThrow("chr3");
+    });
+
+    it("should round trip an existing bigwig file", async () => {
+        const loader = new AxiosDataLoader(`http://localhost:8001/${testBWFilename}`, Axios.create());
+        const reader = new BigWigReader(loader);
+        const header = await reader.getHeader();
+        const { idToChrom, chromSize } = header.chromTree!;
+        const lastChrom = idToChrom[idToChrom.length - 1];
+        const data = await reader.readBigWigData(idToChrom[0], 0, lastChrom, chromSize[lastChrom]);
+
+        const file = await new BigWigWriter(chromSize).write(data);
+        const written = new BigWigReader(new ArrayBufferDataLoader(file));
+        expect(await written.readBigWigData(idToChrom[0], 0, lastChrom, chromSize[lastChrom])).toEqual(data);
+        // UCSC tools sum squares with less precision, so only compare those roughly.
+        const totalSummary = (await written.getHeader()).totalSummary!;
+        expect({ ...totalSummary, sumSquares: 0 }).toEqual({ ...header.totalSummary!, sumSquares: 0 });
+        expect(totalSummary.sumSquares / header.totalSummary!.sumSquares).toBeCloseTo(1, 6);
+    });
+});
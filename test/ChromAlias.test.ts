@@ -0,0 +1,65 @@
+import Axios from "axios";
+import { AxiosDataLoader, BigWigReader, BigWigWriter, ChromAliases, resolveChromAlias } from "../src/";
+import { DataMissingError } from "../src/loader/DataLoader";
+import { ArrayBufferDataLoader } from "./testUtils";
+
+const chromAliasTable = `# ucsc	assembly	genbank	refseq
+chr1	1	CM000663.2	NC_000001.11
+chr2	2	CM000664.2	NC_000002.12
+chrM	MT	J01415.2	NC_012920.1
+`;
+
+describe("ChromAlias", () => {
+    it("should find aliases from a chromAlias table", () => {
+        const aliases = new ChromAliases(chromAliasTable, false);
+        expect(aliases.aliases("chr1")).toEqual(["1", "CM000663.2", "NC_000001.11"]);
+        expect(aliases.aliases("NC_000002.12")).toEqual(["chr2", "2", "CM000664.2"]);
+        expect(aliases.aliases("chr3")).toEqual([]);
+    });
+
+    it("should merge table lines that share a name", () => {
+        const aliases = new ChromAliases("1\tchr1\nNC_000001.11\tchr1\n", false);
+        expect(aliases.aliases("1")).toEqual(["chr1", "NC_000001.11"]);
+    });
+
+    it("should find aliases with heuristics", () => {
+        const aliases = new ChromAliases();
+        expect(aliases.aliases("chr1")).toEqual(["1"]);
+        expect(aliases.aliases("X")).toEqual(["chrX"]);
+        expect(aliases.aliases("chrM")).toEqual(["MT", "chrMT", "M"]);
+        expect(aliases.aliases("MT")).toEqual(["chrM", "chrMT", "M"]);
+        expect(new ChromAliases(chromAliasTable).aliases("1")).toEqual(["chr1", "CM000663.2", "NC_000001.11"]);
+    });
+
+    it("should resolve names a file has", () => {
+        const names = ["1", "2", "MT"];
+        const hasChrom = (name: string) => names.includes(name);
+        expect(resolveChromAlias("2", hasChrom)).toBe("2");
+        expect(resolveChromAlias("chr2", hasChrom)).toBeUndefined();
+        expect(resolveChromAlias("chr2", hasChrom, new ChromAliases())).toBe("2");
+        expect(resolveChromAlias("chrM", hasChrom, new ChromAliases())).toBe("MT");
+        expect(resolveChromAlias("NC_000001.11", hasChrom, new ChromAliases(chromAliasTable))).toBe("1");
+        expect(resolveChromAlias("chr3", hasChrom, new ChromAliases(chromAliasTable))).toBeUndefined();
+    });
+
+    it("should read bigwig data by chromosome alias", async () => {
+        const wigData = [{ chr: "1", start: 0, end: 10, value: 1 }, { chr: "MT", start: 5, end: 15, value: 2 }];
+        const file = await new BigWigWriter({ "1": 1_000, "MT": 1_000 }).write(wigData);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file), undefined,
+            { chromAliases: new ChromAliases(chromAliasTable) });
+
+        expect(await reader.readBigWigData("chr1", 0, "chrM", 1_000)).toEqual(wigData);
+        expect(await reader.readBigWigData("NC_000001.11", 0, "NC_000001.11", 1_000)).toEqual([wigData[0]]);
+        expect(await reader.readBigWigDataForRegions([{ chr: "chrM", start: 0, end: 100 }])).toEqual([[wigData[1]]]);
+        await expect(reader.readBigWigData("chr2", 0, "chr2", 1_000)).rejects.toBeInstanceOf(DataMissingError);
+
+        const plainReader = new BigWigReader(new ArrayBufferDataLoader(file));
+        await expect(plainReader.readBigWigData("chr1", 0, "chr1", 1_000)).rejects.toBeInstanceOf(DataMissingError);
+    });
+
+    it("should read 2bit sequences by alias", async () => {
+        const loader = new AxiosDataLoader("http://localhost:8001/test.2bit", Axios.create());
+        const reader = new BigWigReader(loader, undefined, { chromAliases: new ChromAliases("seq1\tchrUn_seq1") });
+        expect(await reader.readTwoBitData("chrUn_seq1", 2, 10)).toEqual("CTGATGCTA");
+    });
+});
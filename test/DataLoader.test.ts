@@ -1,9 +1,10 @@
-import { AxiosDataLoader } from "../src/loader";
-import { BufferedDataLoader } from "../src/loader/DataLoader";
+import { AxiosDataLoader, AbortError, ErrorType } from "../src/loader";
+import { BufferedDataLoader, withAbortSignal } from "../src/loader/DataLoader";
 import Axios from "axios";
 import { stat, open, read } from "fs";
 import { promisify } from "util";
 import * as path from "path";
+import { TestAbortController } from "./testUtils";
 
 async function fsRead(path: string, start: number, size: number): Promise<Uint8Array> {
     const fd: number = await promisify(open)(path, "r");
@@ -24,6 +25,28 @@ describe("AxiosDataLoader", () => {
         const fsData = await fsRead(fsPath, readStart, readSize);
         expect(data.toString()).toBe(fsData.toString());
     });
+
+    it("should cancel requests when aborted", async () => {
+        const loader = new AxiosDataLoader(url, Axios.create());
+        const controller = new TestAbortController();
+        const load = loader.load(0, 64, controller.signal);
+        controller.abort();
+        await expect(load).rejects.toBeInstanceOf(AbortError);
+        await expect(loader.load(0, 64, controller.signal)).rejects.toMatchObject({ errortype: ErrorType.ABORTED });
+        await expect(loader.loadStream(0, 64, controller.signal)).rejects.toBeInstanceOf(AbortError);
+    });
+});
+
+describe("withAbortSignal", () => {
+    it("should reject loads once aborted, even for loaders that ignore the signal", async () => {
+        const controller = new TestAbortController();
+        const loader = withAbortSignal({ load: async () => new ArrayBuffer(8) }, controller.signal);
+        expect((await loader.load(0, 8)).byteLength).toBe(8);
+        const load = loader.load(0, 8);
+        controller.abort();
+        await expect(load).rejects.toBeInstanceOf(AbortError);
+        await expect(loader.load(0, 8)).rejects.toBeInstanceOf(AbortError);
+    });
 });
 
 describe("BufferedDataLoader", () => {
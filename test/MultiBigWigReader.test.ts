@@ -0,0 +1,61 @@
+import { BigWigReader, BigWigWriter, BigWigData, MultiBigWigReader } from "../src/";
+import { DataMissingError } from "../src/loader/DataLoader";
+import { ArrayBufferDataLoader } from "./testUtils";
+
+const chromSizes = { chr1: 1_000, chr2: 1_000 };
+
+async function bigWigReader(data: Array<BigWigData>): Promise<BigWigReader> {
+    return new BigWigReader(new ArrayBufferDataLoader(await new BigWigWriter(chromSizes).write(data)));
+}
+
+async function testReaders(): Promise<Array<BigWigReader>> {
+    return Promise.all([
+        bigWigReader([{ chr: "chr1", start: 0, end: 10, value: 1 }, { chr: "chr1", start: 10, end: 20, value: 3 }]),
+        bigWigReader([{ chr: "chr1", start: 5, end: 15, value: 5 }]),
+        bigWigReader([{ chr: "chr2", start: 0, end: 10, value: 7 }])
+    ]);
+}
+
+describe("MultiBigWigReader", () => {
+    it("should combine data from several files base by base", async () => {
+        const reader = new MultiBigWigReader(await testReaders());
+        const runs = (data: Array<BigWigData>) => data.map((d) => [d.start, d.end, d.value]);
+        expect(await reader.readAggregatedData("chr1", 0, 100)).toEqual([
+            { chr: "chr1", start: 0, end: 5, value: 1 },
+            { chr: "chr1", start: 5, end: 10, value: 3 },
+            { chr: "chr1", start: 10, end: 15, value: 4 },
+            { chr: "chr1", start: 15, end: 20, value: 3 }
+        ]);
+        expect(runs(await reader.readAggregatedData("chr1", 0, 100, { aggregate: "sum" })))
+            .toEqual([[0, 5, 1], [5, 10, 6], [10, 15, 8], [15, 20, 3]]);
+        expect(runs(await reader.readAggregatedData("chr1", 0, 100, { aggregate: "max" })))
+            .toEqual([[0, 5, 1], [5, 15, 5], [15, 20, 3]]);
+        expect(runs(await reader.readAggregatedData("chr1", 0, 100, { aggregate: "min" })))
+            .toEqual([[0, 10, 1], [10, 20, 3]]);
+        expect(runs(await reader.readAggregatedData("chr1", 7, 12, { aggregate: "median" })))
+            .toEqual([[7, 10, 3], [10, 12, 4]]);
+        expect(runs(await reader.readAggregatedData("chr2", 0, 100))).toEqual([[0, 10, 7]]);
+        await expect(reader.readAggregatedData("chr3", 0, 100)).rejects.toBeInstanceOf(DataMissingError);
+    });
+
+    it("should combine binned data from several files", async () => {
+        const reader = new MultiBigWigReader(await testReaders());
+        expect(await reader.readAggregatedData("chr1", 0, 25, { binSize: 10 })).toEqual([
+            { chr: "chr1", start: 0, end: 10, value: 3 },
+            { chr: "chr1", start: 10, end: 20, value: 4 }
+        ]);
+        await expect(reader.readAggregatedData("chr1", 0, 25, { binSize: 0 })).rejects.toThrow("binSize");
+    });
+
+    it("should normalize each file with z-scores", async () => {
+        const readers = await testReaders();
+        const reader = new MultiBigWigReader(readers.slice(0, 1));
+        // The first file covers 20 bases, with a sum of 40 and a sum of squares of 100.
+        const std = Math.sqrt((100 - 40 * 40 / 20) / 19);
+        const data = await reader.readAggregatedData("chr1", 0, 20, { normalize: "zscore" });
+        expect(data.map((d) => d.value)).toEqual([(1 - 2) / std, (3 - 2) / std]);
+        // The second file has a single value, so no spread.
+        const flat = await new MultiBigWigReader(readers.slice(1, 2)).readAggregatedData("chr1", 0, 20, { normalize: "zscore" });
+        expect(flat).toEqual([{ chr: "chr1", start: 5, end: 15, value: 0 }]);
+    });
+});
@@ -0,0 +1,58 @@
+import { BigWigReader, BigWigWriter, BigBedWriter, BigBedData, BigWigData, computeSignalMatrix } from "../src/";
+import { ArrayBufferDataLoader } from "./testUtils";
+
+const chromSizes = { chr1: 10_000, chr2: 10_000 };
+
+// Each base's value is its position, so the mean of a bin is its middle.
+async function positionBigWig(): Promise<BigWigReader> {
+    const wigData: Array<BigWigData> = [];
+    for (let i = 0; i < 2_000; i++) {
+        wigData.push({ chr: "chr1", start: i, end: i + 1, value: i });
+    }
+    return new BigWigReader(new ArrayBufferDataLoader(await new BigWigWriter(chromSizes).write(wigData)));
+}
+
+const regions: Array<BigBedData> = [
+    { chr: "chr1", start: 100, end: 200, name: "plus", score: 0, strand: "+" },
+    { chr: "chr1", start: 500, end: 600, name: "minus", score: 0, strand: "-" },
+    { chr: "chr2", start: 100, end: 200, name: "no data", score: 0, strand: "+" },
+    { chr: "chr3", start: 100, end: 200, name: "no chrom", score: 0, strand: "+" }
+];
+
+describe("computeSignalMatrix", () => {
+    it("should compute signal around region starts", async () => {
+        const result = await computeSignalMatrix(await positionBigWig(), regions, { upstream: 20, downstream: 30, binSize: 10 });
+        expect(result.nRows).toBe(4);
+        expect(result.nBins).toBe(5);
+        expect(result.binSize).toBe(10);
+        expect(result.rows.map((row) => [row.anchor, row.reversed])).toEqual([[100, false], [600, true], [100, false], [100, false]]);
+        expect(result.rows[1]).toEqual({ chr: "chr1", start: 500, end: 600, name: "minus", strand: "-", anchor: 600, reversed: true });
+
+        const row = (i: number) => Array.from(result.matrix.subarray(i * 5, (i + 1) * 5));
+        expect(row(0)).toEqual([84.5, 94.5, 104.5, 114.5, 124.5]);
+        // Minus strand rows start upstream, at the highest position.
+        expect(row(1)).toEqual([614.5, 604.5, 594.5, 584.5, 574.5]);
+        expect(row(2).every(isNaN)).toBe(true);
+        expect(row(3).every(isNaN)).toBe(true);
+    });
+
+    it("should use the chosen reference point", async () => {
+        const reader = await positionBigWig();
+        const options = { upstream: 10, downstream: 10, binSize: 10 };
+        const centered = await computeSignalMatrix(reader, regions.slice(0, 2), { ...options, referencePoint: "center" });
+        expect(Array.from(centered.matrix)).toEqual([144.5, 154.5, 554.5, 544.5]);
+        const ends = await computeSignalMatrix(reader, regions.slice(0, 2), { ...options, referencePoint: "end" });
+        expect(Array.from(ends.matrix)).toEqual([194.5, 204.5, 504.5, 494.5]);
+        const unstranded = await computeSignalMatrix(reader, regions.slice(0, 2), { ...options, strandAware: false });
+        expect(Array.from(unstranded.matrix)).toEqual([94.5, 104.5, 494.5, 504.5]);
+        await expect(computeSignalMatrix(reader, regions, { binSize: 0 })).rejects.toThrow("binSize");
+    });
+
+    it("should take regions from a bigbed file", async () => {
+        const bigBedReader = new BigWigReader(new ArrayBufferDataLoader(await new BigBedWriter(chromSizes).write(regions.slice(0, 3))));
+        const reader = await positionBigWig();
+        const options = { upstream: 1_000, downstream: 1_000, binSize: 100, stat: "max" as "max" };
+        expect(await computeSignalMatrix(reader, bigBedReader, options))
+            .toEqual(await computeSignalMatrix(reader, regions.slice(0, 3), options));
+    });
+});
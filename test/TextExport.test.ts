@@ -0,0 +1,71 @@
+import { BigWigReader, BigWigWriter, BigBedWriter, BigBedData, exportBigWigText, exportBigBedText, streamBigWigText,
+    streamBigBedText } from "../src/";
+import { ArrayBufferDataLoader, streamToArray } from "./testUtils";
+
+const chromSizes = { chr1: 1_000, chr2: 1_000, chr3: 1_000 };
+
+async function testBigWig(): Promise<BigWigReader> {
+    const file = await new BigWigWriter(chromSizes).write([
+        // Fixed step on chr1, variable step on chr2 and bed graph on chr3
+        { chr: "chr1", start: 0, end: 5, value: 0 },
+        { chr: "chr1", start: 10, end: 15, value: 1 },
+        { chr: "chr1", start: 20, end: 25, value: 2 },
+        { chr: "chr2", start: 0, end: 1, value: 0.5 },
+        { chr: "chr2", start: 1, end: 2, value: 1.5 },
+        { chr: "chr2", start: 4, end: 5, value: 2.5 },
+        { chr: "chr3", start: 0, end: 1, value: 0.25 },
+        { chr: "chr3", start: 10, end: 13, value: 0.1 }
+    ]);
+    return new BigWigReader(new ArrayBufferDataLoader(file));
+}
+
+async function collect(text: AsyncIterableIterator<string>): Promise<string> {
+    let collected = "";
+    for await (const line of text) {
+        collected += line;
+    }
+    return collected;
+}
+
+describe("TextExport", () => {
+    it("should export bigwig data as bedGraph", async () => {
+        const reader = await testBigWig();
+        expect(await collect(exportBigWigText(reader))).toBe(
+            "chr1\t0\t5\t0\nchr1\t10\t15\t1\nchr1\t20\t25\t2\n" +
+            "chr2\t0\t1\t0.5\nchr2\t1\t2\t1.5\nchr2\t4\t5\t2.5\n" +
+            "chr3\t0\t1\t0.25\nchr3\t10\t13\t0.1\n");
+        const regions = [{ chr: "chr3", start: 5, end: 20 }, { chr: "chr1", start: 10, end: 20 }];
+        expect(await collect(exportBigWigText(reader, { regions }))).toBe("chr3\t10\t13\t0.1\nchr1\t10\t15\t1\n");
+    });
+
+    it("should export bigwig data as wig, keeping each section's encoding", async () => {
+        const reader = await testBigWig();
+        expect(await collect(exportBigWigText(reader, { format: "wig" }))).toBe(
+            "fixedStep chrom=chr1 start=1 step=10 span=5\n0\n1\n2\n" +
+            "variableStep chrom=chr2 span=1\n1\t0.5\n2\t1.5\n5\t2.5\n" +
+            "#bedGraph section chr3:0-13\nchr3\t0\t1\t0.25\nchr3\t10\t13\t0.1\n");
+        expect(await collect(exportBigWigText(reader, { format: "wig", regions: [{ chr: "chr1", start: 10, end: 30 }] })))
+            .toBe("fixedStep chrom=chr1 start=11 step=10 span=5\n1\n2\n");
+
+        const streamed = await streamToArray<string>(streamBigWigText(reader, { format: "wig" }));
+        expect(streamed.join("")).toBe(await collect(exportBigWigText(reader, { format: "wig" })));
+    });
+
+    it("should export bigbed records as bed, keeping the original columns", async () => {
+        const records: Array<BigBedData> = [
+            { chr: "chr1", start: 0, end: 100, name: "a", score: 5, strand: "+" },
+            { chr: "chr1", start: 50, end: 150, name: "b", score: 0, strand: "-", cdStart: 60, cdEnd: 140, color: "255,0,0",
+                exons: [{ start: 50, end: 70 }, { start: 120, end: 150 }] },
+            { chr: "chr2", start: 10, end: 20, name: "c", score: 1, strand: "." }
+        ];
+        const file = await new BigBedWriter(chromSizes).write(records);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+        const expected = "chr1\t0\t100\ta\t5\t+\n" +
+            "chr1\t50\t150\tb\t0\t-\t60\t140\t255,0,0\t2\t20,30,\t0,70,\n" +
+            "chr2\t10\t20\tc\t1\t.\n";
+        expect(await collect(exportBigBedText(reader))).toBe(expected);
+        expect(await collect(exportBigBedText(reader, { regions: [{ chr: "chr2", start: 0, end: 1_000 }] })))
+            .toBe("chr2\t10\t20\tc\t1\t.\n");
+        expect((await streamToArray<string>(streamBigBedText(reader))).join("")).toBe(expected);
+    });
+});
@@ -1,6 +1,6 @@
 import Axios from "axios";
 import { AxiosDataLoader, BigWigReader } from "../src/";
-import { streamToArray } from "./testUtils";
+import { streamToArray, CountingDataLoader } from "./testUtils";
 
 const testTwoBitFilename = "test.2bit";
 
@@ -68,6 +68,32 @@ describe("TwoBitReader", () => {
 		expect(chunkSizes).toEqual([32, 32, 32, 27]);
 	});
 
+	it("should iterate over sequence data from seq1", async () => {
+		const loader = new AxiosDataLoader(`http://localhost:8001/${testTwoBitFilename}`, Axios.create());
+		const reader = new BigWigReader(loader);
+		const chunks: string[] = [];
+		for await (const chunk of reader.iterateTwoBitData("seq1", 2, 124, 32)) {
+			chunks.push(chunk);
+		}
+		expect(chunks).toEqual(await streamToArray(await reader.streamTwoBitData("seq1", 2, 124, 32)));
+		expect(chunks.map((ch) => ch.length)).toEqual([32, 32, 32, 27]);
+	});
+
+	it("should only load each chunk of sequence data when it's iterated to", async () => {
+		const loader = new CountingDataLoader(new AxiosDataLoader(`http://localhost:8001/${testTwoBitFilename}`, Axios.create()));
+		const reader = new BigWigReader(loader);
+		await reader.getSequenceRecord("seq1");
+		loader.loads.length = 0;
+		const iterator = reader.iterateTwoBitData("seq1", 2, 124, 32);
+		expect(loader.loads.length).toBe(0);
+		const first = await iterator.next();
+		expect(first.value.length).toBe(32);
+		// 32 bases are packed 4 to a byte, plus a byte for the chunk not starting on a byte boundary.
+		expect(loader.loads.reduce((bytes, load) => bytes + load.size!, 0)).toBeLessThanOrEqual(32 / 4 + 2);
+		await iterator.next();
+		expect(loader.loads.length).toBe(2);
+	});
+
 	it("should stream one hot encoded data from seq1", async () => {
 		const loader = new AxiosDataLoader(`http://localhost:8001/${testTwoBitFilename}`, Axios.create());
 		const reader = new BigWigReader(loader);
@@ -29,4 +29,16 @@ describe("BamReader", () => {
             lengthOnRef: 36
         });
     }, 30_000);
-});
\ No newline at end of file
+
+    it("should iterate over reads from a region of a bam", async () => {
+        const bamLoader = new AxiosDataLoader(`http://localhost:8001/${testBamFilename}`, Axios.create());
+        const bamIndexoader = new AxiosDataLoader(`http://localhost:8001/${testBamIndexFilename}`, Axios.create());
+        const reader = new BamReader(bamLoader, bamIndexoader);
+        const alignments: Array<BamAlignment> = [];
+        for await (const alignment of reader.iterate("chr22", 20_890_000, 20_910_000)) {
+            alignments.push(alignment);
+        }
+        expect(alignments).toEqual(await reader.read("chr22", 20_890_000, 20_910_000));
+        expect(alignments).toHaveLength(300);
+    }, 30_000);
+});
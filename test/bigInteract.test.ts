@@ -0,0 +1,64 @@
+import { BigWigReader, BigBedWriter, BedpeReader, parseBigBedInteract } from "../src/";
+import { FileFormatError } from "../src/loader/DataLoader";
+import { ArrayBufferDataLoader } from "./testUtils";
+
+const chromSizes = { chr1: 100_000, chr2: 100_000 };
+
+const interactRecords = [
+    { chr: "chr1", start: 100, end: 10_000, rest: "loop\t500\t5\tHiC\t#ff0000\tchr1\t100\t200\ta\t.\tchr1\t9900\t10000\tb\t." },
+    { chr: "chr1", start: 1_000, end: 1_200, rest: "short\t0\t1.5\tHiC\t0\tchr1\t1000\t1100\tc\t+\tchr1\t1150\t1200\td\t-" },
+    // The same interaction stored twice
+    { chr: "chr1", start: 1_000, end: 1_200, rest: "short\t0\t1.5\tHiC\t0\tchr1\t1000\t1100\tc\t+\tchr1\t1150\t1200\td\t-" },
+    { chr: "chr1", start: 5_000, end: 5_100, rest: "trans\t0\t2\tChIA-PET\t0\tchr1\t5000\t5100\te\t.\tchr2\t300\t400\tf\t." }
+];
+
+function textLoader(text: string): ArrayBufferDataLoader {
+    return new ArrayBufferDataLoader(new TextEncoder().encode(text).buffer);
+}
+
+describe("bigInteract", () => {
+    it("should parse bigInteract records", async () => {
+        expect(parseBigBedInteract("chr1", 100, 10_000, interactRecords[0].rest)).toEqual({
+            chr: "chr1", start: 100, end: 10_000, name: "loop", score: 500, value: 5, exp: "HiC", color: "#ff0000",
+            source: { chr: "chr1", start: 100, end: 200, name: "a", strand: "." },
+            target: { chr: "chr1", start: 9_900, end: 10_000, name: "b", strand: "." }
+        });
+    });
+
+    it("should read interactions with an anchor in the viewport", async () => {
+        const file = await new BigBedWriter(chromSizes).write(interactRecords, (record) => record.rest);
+        const reader = new BigWigReader(new ArrayBufferDataLoader(file));
+
+        // The loop spans this viewport, but neither of its anchors is in it.
+        expect((await reader.readBigInteractData("chr1", 4_000, 6_000)).map((d) => d.name)).toEqual(["trans"]);
+        expect((await reader.readBigInteractData("chr1", 150, 1_050)).map((d) => d.name)).toEqual(["loop", "short"]);
+        expect((await reader.readBigInteractData("chr1", 9_950, 9_960)).map((d) => d.name)).toEqual(["loop"]);
+        expect(await reader.readBigInteractData("chr1", 20_000, 30_000)).toEqual([]);
+    });
+
+    it("should read interactions from bedpe files", async () => {
+        const reader = new BedpeReader(textLoader([
+            "# Hi-C loops",
+            "chr1\t100\t200\tchr1\t9900\t10000\tloop\t5\t.\t.",
+            "chr1\t5000\t5100\tchr2\t300\t400\ttrans\t.",
+            "chr1\t1000\t1100\tchr1\t1150\t1200",
+            ""
+        ].join("\n")));
+        const interactions = await reader.readBedpeData();
+        expect(interactions).toEqual([
+            { chr: "chr1", start: 100, end: 10_000, name: "loop", score: 5, value: 5,
+                source: { chr: "chr1", start: 100, end: 200, strand: "." }, target: { chr: "chr1", start: 9_900, end: 10_000, strand: "." } },
+            { chr: "chr1", start: 5_000, end: 5_100, name: "trans",
+                source: { chr: "chr1", start: 5_000, end: 5_100 }, target: { chr: "chr2", start: 300, end: 400 } },
+            { chr: "chr1", start: 1_000, end: 1_200,
+                source: { chr: "chr1", start: 1_000, end: 1_100 }, target: { chr: "chr1", start: 1_150, end: 1_200 } }
+        ]);
+        expect((await reader.readInteractions("chr1", 4_000, 6_000)).map((d) => d.name)).toEqual(["trans"]);
+        expect((await reader.readInteractions("chr2", 0, 1_000)).map((d) => d.name)).toEqual(["trans"]);
+
+        await expect(new BedpeReader(textLoader("chr1\t100\t200\n")).readBedpeData()).rejects.toBeInstanceOf(FileFormatError);
+
+        const utf8Reader = new BedpeReader(textLoader("chr1\t100\t200\tchr1\t300\t400\tSOX2–enhancer loop (µm)\r\n"));
+        expect((await utf8Reader.readBedpeData()).map((d) => d.name)).toEqual(["SOX2–enhancer loop (µm)"]);
+    });
+});
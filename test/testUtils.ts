@@ -1,4 +1,87 @@
 import { Readable } from "stream";
+import { DataLoader } from "../src/loader";
+import { BigWigWriter, BigWigData, BigFileWriterOptions } from "../src/";
+
+/**
+ * DataLoader for data that's already in memory, ie. files made by the writers.
+ */
+export class ArrayBufferDataLoader implements DataLoader {
+    constructor(private data: ArrayBuffer) {}
+
+    async load(start: number, size?: number): Promise<ArrayBuffer> {
+        return this.data.slice(start, size !== undefined ? start + size : undefined);
+    }
+
+    async loadStream(start: number, size?: number): Promise<Readable> {
+        const data = Buffer.from(await this.load(start, size));
+        return new Readable({
+            read() {
+                this.push(data);
+                this.push(null);
+            }
+        });
+    }
+}
+
+/**
+ * Writes a small BigWig file for checking how data is fetched: 2,000 values on chr1, 5 bases every 10 bases,
+ * with 10 values in each data block.
+ *
+ * @param options Writer options, on top of the 10 values per data block.
+ */
+export async function writeTestBigWig(options: BigFileWriterOptions = {}): Promise<{ wigData: Array<BigWigData>, file: ArrayBuffer }> {
+    const wigData: Array<BigWigData> = [];
+    for (let i = 0; i < 2_000; i++) {
+        wigData.push({ chr: "chr1", start: i * 10, end: i * 10 + 5, value: i });
+    }
+    const file = await new BigWigWriter({ chr1: 100_000 }, { itemsPerSlot: 10, ...options }).write(wigData);
+    return { wigData, file };
+}
+
+/**
+ * DataLoader wrapper that records every load request, for checking how data is fetched.
+ */
+export class CountingDataLoader implements DataLoader {
+    readonly loads: Array<{ start: number, size?: number }> = [];
+    inFlight = 0;
+    maxInFlight = 0;
+
+    constructor(private dataLoader: DataLoader) {}
+
+    async load(start: number, size?: number): Promise<ArrayBuffer> {
+        this.loads.push({ start, size });
+        this.maxInFlight = Math.max(this.maxInFlight, ++this.inFlight);
+        try {
+            return await this.dataLoader.load(start, size);
+        } finally {
+            this.inFlight--;
+        }
+    }
+
+    async loadStream(start: number, size?: number): Promise<Readable> {
+        this.loads.push({ start, size });
+        return this.dataLoader.loadStream!(start, size);
+    }
+}
+
+/**
+ * Minimal stand-in for AbortController, which jest's node environment doesn't provide.
+ */
+export class TestAbortController {
+    private listeners: Array<() => void> = [];
+    readonly signal = {
+        aborted: false,
+        addEventListener: (type: string, listener: () => void) => this.listeners.push(listener),
+        removeEventListener: (type: string, listener: () => void) => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        }
+    } as unknown as AbortSignal;
+
+    abort() {
+        (this.signal as { aborted: boolean }).aborted = true;
+        this.listeners.forEach((listener) => listener());
+    }
+}
 
 export function streamToArray<T> (stream: Readable): Promise<T[]> {
     const chunks: T[] = [];
@@ -0,0 +1,70 @@
+import { BigWigReader, BigBedWriter, parseBigBedGenePred, parseBigBedPsl, readBigChainData } from "../src/";
+import { ArrayBufferDataLoader } from "./testUtils";
+
+const chromSizes = { chr1: 10_000, chr2: 10_000 };
+
+interface RawBed {
+    chr: string,
+    start: number,
+    end: number,
+    rest: string
+}
+
+async function rawBigBed(records: Array<RawBed>): Promise<BigWigReader> {
+    const file = await new BigBedWriter(chromSizes).write(records, (record) => record.rest);
+    return new BigWigReader(new ArrayBufferDataLoader(file));
+}
+
+describe("ucscBigBed", () => {
+    it("should parse bigGenePred records", async () => {
+        const reader = await rawBigBed([{ chr: "chr1", start: 1_000, end: 2_000, rest: [
+            "NM_1", "0", "+", "1100", "1900", "0", "3", "200,100,300,", "0,400,700,",
+            "GENE1", "cmpl", "incmpl", "-1,0,1,", "protein_coding", "ENSG1", "Gene One", "coding"
+        ].join("\t") }]);
+        const [gene] = await reader.readBigBedData("chr1", 0, "chr1", 10_000, parseBigBedGenePred);
+        expect(gene).toEqual({
+            chr: "chr1", start: 1_000, end: 2_000, name: "NM_1", score: 0, strand: "+", cdStart: 1_100, cdEnd: 1_900,
+            exons: [{ start: 1_000, end: 1_200 }, { start: 1_400, end: 1_500 }, { start: 1_700, end: 2_000 }],
+            cds: [{ start: 1_100, end: 1_200 }, { start: 1_400, end: 1_500 }, { start: 1_700, end: 1_900 }],
+            name2: "GENE1", cdsStartStat: "cmpl", cdsEndStat: "incmpl", exonFrames: [-1, 0, 1], type: "protein_coding",
+            geneName: "ENSG1", geneName2: "Gene One", geneType: "coding"
+        });
+    });
+
+    it("should parse bigPsl records", async () => {
+        const reader = await rawBigBed([{ chr: "chr2", start: 100, end: 400, rest: [
+            "query1", "1000", "-", "100", "400", "255,0,0", "2", "100,50,", "0,250,",
+            "10", "160", "+", "500", "10,110,", "ACGT", "", "10000", "148", "2", "0", "0", "1"
+        ].join("\t") }]);
+        const [psl] = await reader.readBigBedData("chr2", 0, "chr2", 10_000, parseBigBedPsl);
+        expect(psl).toEqual({
+            chr: "chr2", start: 100, end: 400, name: "query1", score: 1000, strand: "-", cdStart: 100, cdEnd: 400,
+            color: "rgb(255,0,0)", exons: [{ start: 100, end: 200 }, { start: 350, end: 400 }],
+            cds: [{ start: 100, end: 200 }, { start: 350, end: 400 }],
+            oChromStart: 10, oChromEnd: 160, oStrand: "+", oChromSize: 500, oChromStarts: [10, 110], oSequence: "ACGT",
+            oCDS: "", chromSize: 10_000, match: 148, misMatch: 2, repMatch: 0, nCount: 0, seqType: 1
+        });
+    });
+
+    it("should join bigChain records with their links", async () => {
+        const chainReader = await rawBigBed([
+            { chr: "chr1", start: 100, end: 5_000, rest: "1\t0\t+\t10000\tchrQ\t8000\t0\t4900\t12345" },
+            { chr: "chr1", start: 200, end: 300, rest: "2\t0\t-\t10000\tchrR\t900\t50\t150\t99" }
+        ]);
+        const linkReader = await rawBigBed([
+            { chr: "chr1", start: 100, end: 1_000, rest: "1\t0" },
+            { chr: "chr1", start: 200, end: 300, rest: "2\t50" },
+            { chr: "chr1", start: 4_000, end: 5_000, rest: "1\t3900" }
+        ]);
+        const chains = await readBigChainData(chainReader, linkReader, "chr1", 250, 260);
+        expect(chains.map((chain) => [chain.name, chain.qName, chain.qSize, chain.chainScore])).toEqual([
+            ["1", "chrQ", 8_000, 12_345], ["2", "chrR", 900, 99]
+        ]);
+        expect(chains[0].links).toEqual([
+            { chr: "chr1", start: 100, end: 1_000, name: "1", qStart: 0 },
+            { chr: "chr1", start: 4_000, end: 5_000, name: "1", qStart: 3_900 }
+        ]);
+        expect(chains[1].links).toEqual([{ chr: "chr1", start: 200, end: 300, name: "2", qStart: 50 }]);
+        expect(await readBigChainData(chainReader, linkReader, "chr2", 0, 10_000)).toEqual([]);
+    });
+});